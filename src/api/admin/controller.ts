@@ -4,6 +4,7 @@ import redisClient from '../../lib/redis';
 // Define the known cache prefixes
 const CACHE_PREFIXES_TO_CLEAR = [
   'portfolio:summary:*', // Portfolio summaries
+  'portfolio:holdings:*', // Holdings of the last portfolio calculation
   'collection:*', // Collection data (from worker or API fetch)
   'ens:resolve:*', // ENS name resolves
   'ens:lookup:*', // ENS address lookups
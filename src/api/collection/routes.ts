@@ -48,9 +48,10 @@ async function collectionRoutes(fastify: FastifyInstance) {
                     safelist_status: { type: ['string', 'null'] },
                     floor_price: { type: 'number' },
                     total_supply: { type: 'number' },
-                    num_owners: { type: 'number' },
-                    total_volume: { type: 'number' },
-                    market_cap: { type: 'number' },
+                    num_owners: { type: ['number', 'null'] },
+                    total_volume: { type: ['number', 'null'] },
+                    one_day_volume: { type: ['number', 'null'] },
+                    market_cap: { type: ['number', 'null'] },
                   },
                 },
               },
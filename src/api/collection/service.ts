@@ -39,9 +39,10 @@ function adaptCachedDataToResponseItem(
     image_url: cachedData.image_url ?? null,
     safelist_status: cachedData.safelist_status ?? null,
     total_supply: cachedData.total_supply ?? 0,
-    num_owners: cachedData.num_owners ?? 0,
-    total_volume: cachedData.total_volume ?? 0,
-    market_cap: cachedData.market_cap ?? 0,
+    num_owners: cachedData.num_owners ?? null,
+    total_volume: cachedData.total_volume ?? null,
+    one_day_volume: cachedData.one_day_volume ?? null,
+    market_cap: cachedData.market_cap ?? null,
   };
   const priceData =
     cachedData.floor_price > 0 ? { floor_price: cachedData.floor_price } : null;
@@ -61,7 +62,8 @@ async function processCollection(
     // 1. Fetch fresh data
     const combinedData = await fetchCollectionDataUtil(slug, contractAddress);
 
-    // 2. Write to cache (write-through)
+    // 2. Write to cache (write-through), unless the floor price fetch failed:
+    // a cached 0 floor would be reused as a real one
     const cacheKey = `${CACHE_PREFIX}${slug}`;
     const fetchedAt = new Date();
     const dataToStore = {
@@ -69,20 +71,26 @@ async function processCollection(
       lastUpdated: fetchedAt.toISOString(),
       source: 'api-fetch-cache', // Indicate source
     };
-    try {
-      await redisClient.set(
-        cacheKey,
-        JSON.stringify(dataToStore),
-        'EX',
-        CACHE_TTL_SECONDS
-      );
-      console.log(`[API Service Cache SET] Stored fresh data for ${slug}`);
-    } catch (cacheError) {
-      console.error(
-        `[API Service Cache SET Error] Failed for ${slug}:`,
-        cacheError
+    if (combinedData.fetch_failed) {
+      console.warn(
+        `[API Service Cache SKIP] Floor price fetch failed for ${slug}; not caching.`
       );
-      // Continue even if cache set fails
+    } else {
+      try {
+        await redisClient.set(
+          cacheKey,
+          JSON.stringify(dataToStore),
+          'EX',
+          CACHE_TTL_SECONDS
+        );
+        console.log(`[API Service Cache SET] Stored fresh data for ${slug}`);
+      } catch (cacheError) {
+        console.error(
+          `[API Service Cache SET Error] Failed for ${slug}:`,
+          cacheError
+        );
+        // Continue even if cache set fails
+      }
     }
 
     // 3. Adapt to API response format
@@ -95,6 +103,7 @@ async function processCollection(
       total_supply: combinedData.total_supply,
       num_owners: combinedData.num_owners,
       total_volume: combinedData.total_volume,
+      one_day_volume: combinedData.one_day_volume,
       market_cap: combinedData.market_cap,
     };
     const priceData =
@@ -1,32 +1,204 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ethers } from 'ethers'; // Import ethers
 import {
-  syncAccountEventsInBackground,
   getPaginatedAccountEvents,
+  getAccountEventsAfterCursor,
   getAccountEventCount,
-  checkSyncStatus, // Import the new status checker
+  encodeEventCursor,
+  decodeEventCursor,
+  getEventSyncCoverage,
+  getAccountTradingStats,
+  getPaginatedCollectionEvents,
+  getCollectionEventsAfterCursor,
+  getCollectionEventCount,
+  getTokenEvents,
+  buildTokenProvenance,
+  MAX_PAGES_DEFAULT,
 } from './service';
+import {
+  addEventSyncJob,
+  addEventBackfillJob,
+  getEventSyncStatus,
+  subscribeToEventSyncJob,
+  syncTokenEventsAndWait,
+} from '../../services/eventSyncService';
+import { addCollectionSyncJob } from '../../services/collectionEventSyncService';
+import { StreamMessage, AccountEventFilters, EventCursor } from './types';
+import { IActivityEvent } from '../../models/ActivityEvent';
 
 // Define interfaces for request parameters and query string
 interface AddressParams {
   address: string;
 }
 
+interface CollectionParams {
+  slug: string;
+}
+
+interface TokenParams {
+  contract: string;
+  identifier: string;
+}
+
 interface PaginationQuery {
   page?: string | number;
   limit?: string | number;
 }
 
+interface ActivityQuery extends PaginationQuery {
+  cursor?: string; // `next` token; present (even empty) selects cursor mode
+  event_type?: string; // Comma-separated list
+  collection?: string;
+  contract?: string;
+  direction?: 'in' | 'out';
+  from?: string; // ISO date or Unix ms
+  to?: string;
+}
+
+const SSE_KEEP_ALIVE_MS = 15 * 1000; // Comment ping so proxies don't drop idle streams
+const TOKEN_SYNC_WAIT_MS = 20 * 1000; // How long a provenance request waits for an on-demand sync
+
+// Accepts ISO dates or Unix millisecond timestamps; null when unparseable
+function parseDateParam(value: string): number | null {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+// Maps the activity query string onto service filters, or returns an error message
+function parseActivityFilters(
+  query: ActivityQuery
+): AccountEventFilters | string {
+  const filters: AccountEventFilters = {
+    collection: query.collection || undefined,
+    contract: query.contract ? query.contract.toLowerCase() : undefined,
+    direction: query.direction,
+  };
+  if (query.event_type) {
+    filters.eventTypes = query.event_type.split(',');
+  }
+  if (query.from) {
+    const from = parseDateParam(query.from);
+    if (from === null) return 'Invalid from date.';
+    filters.from = from;
+  }
+  if (query.to) {
+    const to = parseDateParam(query.to);
+    if (to === null) return 'Invalid to date.';
+    filters.to = to;
+  }
+  if (
+    filters.from !== undefined &&
+    filters.to !== undefined &&
+    filters.from > filters.to
+  ) {
+    return 'Invalid date range: from must be before to.';
+  }
+  return filters;
+}
+
+// Pagination + filters shared by the account and collection feeds
+interface ParsedActivityQuery {
+  page: number;
+  limit: number;
+  filters: AccountEventFilters;
+  cursorMode: boolean; // `cursor` present, even empty
+  cursor: EventCursor | null;
+}
+
+// Validates the activity query string, or returns an error message
+function parseActivityQuery(
+  query: ActivityQuery
+): ParsedActivityQuery | string {
+  // Validate and parse pagination parameters
+  const page = parseInt(String(query.page ?? '1'), 10);
+  const limit = parseInt(String(query.limit ?? '20'), 10);
+
+  if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > 100) {
+    return 'Invalid pagination parameters.';
+  }
+
+  const filters = parseActivityFilters(query);
+  if (typeof filters === 'string') return filters;
+
+  const cursor = query.cursor ? decodeEventCursor(query.cursor) : null;
+  if (query.cursor && !cursor) return 'Invalid cursor.';
+
+  return {
+    page,
+    limit,
+    filters,
+    cursorMode: query.cursor !== undefined,
+    cursor,
+  };
+}
+
+// Service readers for one feed, bound to its address or slug
+interface ActivityFeed {
+  count: (filters: AccountEventFilters) => Promise<number>;
+  page: (
+    skip: number,
+    limit: number,
+    filters: AccountEventFilters
+  ) => Promise<IActivityEvent[]>;
+  afterCursor: (
+    cursor: EventCursor | null,
+    limit: number,
+    filters: AccountEventFilters
+  ) => Promise<{ events: IActivityEvent[]; next: string | null }>;
+}
+
+// Loads the requested page; cursor mode ignores `page` and an empty cursor
+// starts from the newest event
+async function loadActivityPage(
+  { page, limit, filters, cursorMode, cursor }: ParsedActivityQuery,
+  feed: ActivityFeed
+) {
+  if (cursorMode) {
+    const [totalCount, result] = await Promise.all([
+      feed.count(filters),
+      feed.afterCursor(cursor, limit, filters),
+    ]);
+    return {
+      pagination: {
+        currentPage: null,
+        limit: limit,
+        totalPages: Math.ceil(totalCount / limit),
+        totalItems: totalCount,
+        next: result.next,
+      },
+      events: result.events,
+    };
+  }
+
+  const skip = (page - 1) * limit;
+  const [totalCount, events] = await Promise.all([
+    feed.count(filters),
+    feed.page(skip, limit, filters),
+  ]);
+  // Lets page-mode clients continue with cursors from any page
+  const hasMore = events.length > 0 && skip + events.length < totalCount;
+
+  return {
+    pagination: {
+      currentPage: page,
+      limit: limit,
+      totalPages: Math.ceil(totalCount / limit),
+      totalItems: totalCount,
+      next: hasMore ? encodeEventCursor(events[events.length - 1]) : null,
+    },
+    events: events,
+  };
+}
+
 // Controller for fetching events (GET /:address)
 export const getAccountActivity = async (
   request: FastifyRequest<{
     Params: AddressParams; // Use common interface
-    Querystring: PaginationQuery; // Use common interface
+    Querystring: ActivityQuery;
   }>,
   reply: FastifyReply
 ): Promise<void> => {
   const { address } = request.params;
-  const { page: pageQuery, limit: limitQuery } = request.query;
 
   // Validate address using ethers
   if (!ethers.isAddress(address)) {
@@ -36,40 +208,25 @@ export const getAccountActivity = async (
 
   const lowerCaseAddress = address.toLowerCase();
 
-  // Validate and parse pagination parameters
-  const page = parseInt(String(pageQuery ?? '1'), 10);
-  const limit = parseInt(String(limitQuery ?? '20'), 10);
-
-  if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > 100) {
-    reply.code(400).send({ error: 'Invalid pagination parameters.' });
+  const parsed = parseActivityQuery(request.query);
+  if (typeof parsed === 'string') {
+    reply.code(400).send({ error: parsed });
     return;
   }
 
-  const skip = (page - 1) * limit;
-
   // Note: We DON'T trigger the sync here anymore.
   // The frontend will decide when to trigger it via the POST /sync endpoint.
-  // syncAccountEventsInBackground(lowerCaseAddress).catch((err) => { ... });
 
   try {
     // Fetch data directly from the database via the service
-    const [totalCount, events] = await Promise.all([
-      getAccountEventCount(lowerCaseAddress),
-      getPaginatedAccountEvents(lowerCaseAddress, skip, limit),
-    ]);
-
-    const totalPages = Math.ceil(totalCount / limit);
-
-    reply.code(200).send({
-      address: lowerCaseAddress,
-      pagination: {
-        currentPage: page,
-        limit: limit,
-        totalPages: totalPages,
-        totalItems: totalCount,
-      },
-      events: events,
+    const result = await loadActivityPage(parsed, {
+      count: (filters) => getAccountEventCount(lowerCaseAddress, filters),
+      page: (skip, limit, filters) =>
+        getPaginatedAccountEvents(lowerCaseAddress, skip, limit, filters),
+      afterCursor: (cursor, limit, filters) =>
+        getAccountEventsAfterCursor(lowerCaseAddress, cursor, limit, filters),
     });
+    reply.code(200).send({ address: lowerCaseAddress, ...result });
   } catch (error: any) {
     request.log.error(
       { err: error, address: lowerCaseAddress }, // Log address with error
@@ -81,6 +238,70 @@ export const getAccountActivity = async (
   }
 };
 
+// Controller for a collection's feed (GET /collection/:slug)
+export const getCollectionActivity = async (
+  request: FastifyRequest<{
+    Params: CollectionParams;
+    Querystring: ActivityQuery;
+  }>,
+  reply: FastifyReply
+): Promise<void> => {
+  const { slug } = request.params;
+
+  const parsed = parseActivityQuery(request.query);
+  if (typeof parsed === 'string') {
+    reply.code(400).send({ error: parsed });
+    return;
+  }
+
+  try {
+    const result = await loadActivityPage(parsed, {
+      count: (filters) => getCollectionEventCount(slug, filters),
+      page: (skip, limit, filters) =>
+        getPaginatedCollectionEvents(slug, skip, limit, filters),
+      afterCursor: (cursor, limit, filters) =>
+        getCollectionEventsAfterCursor(slug, cursor, limit, filters),
+    });
+    reply.code(200).send({ collection: slug, ...result });
+  } catch (error: any) {
+    request.log.error(
+      { err: error, slug },
+      `Error fetching collection activity for ${slug}`
+    );
+    reply.code(500).send({
+      error: error.message || 'Failed to retrieve collection activity.',
+    });
+  }
+};
+
+// Controller for triggering a collection sync (POST /collection/:slug/sync)
+export const triggerCollectionSync = async (
+  request: FastifyRequest<{ Params: CollectionParams }>,
+  reply: FastifyReply
+) => {
+  const { slug } = request.params;
+
+  try {
+    const job = await addCollectionSyncJob(slug);
+    if (!job) {
+      return reply
+        .code(503)
+        .send({ error: 'Collection sync queue is currently unavailable.' });
+    }
+  } catch (error) {
+    request.log.error(
+      { err: error, slug },
+      `Failed to queue collection sync for ${slug}`
+    );
+    return reply.code(500).send({ error: 'Failed to queue collection sync.' });
+  }
+
+  return reply.code(202).send({
+    status: 'sync_triggered',
+    message: `Background event sync initiated for collection ${slug}.`,
+  });
+};
+
 // --- NEW CONTROLLERS ---
 
 // Controller for triggering sync (POST /:address/sync)
@@ -96,22 +317,116 @@ export const triggerAccountSync = async (
 
   const lowerCaseAddress = address.toLowerCase();
 
-  // Call the background sync function but don't wait for it
-  syncAccountEventsInBackground(lowerCaseAddress).catch((err) => {
-    // Log error if triggering fails, but don't fail the request
+  try {
+    // Deduplicated per address: an already queued or running sync is reused
+    const job = await addEventSyncJob(lowerCaseAddress);
+    if (!job) {
+      return reply
+        .code(503)
+        .send({ error: 'Event sync queue is currently unavailable.' });
+    }
+  } catch (error) {
     request.log.error(
-      { err, address: lowerCaseAddress },
-      `Failed background sync trigger for ${lowerCaseAddress}`
+      { err: error, address: lowerCaseAddress },
+      `Failed to queue event sync for ${lowerCaseAddress}`
     );
-  });
+    return reply.code(500).send({ error: 'Failed to queue event sync.' });
+  }
 
-  // Immediately return 202 Accepted
   return reply.code(202).send({
     status: 'sync_triggered',
     message: `Background event sync initiated for ${lowerCaseAddress}.`,
   });
 };
 
+// Controller for triggering a history backfill (POST /:address/backfill)
+export const triggerAccountBackfill = async (
+  request: FastifyRequest<{ Params: AddressParams }>,
+  reply: FastifyReply
+) => {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({ error: 'Invalid Ethereum address format.' });
+  }
+
+  const lowerCaseAddress = address.toLowerCase();
+
+  try {
+    const job = await addEventBackfillJob(lowerCaseAddress);
+    if (!job) {
+      return reply
+        .code(503)
+        .send({ error: 'Event sync queue is currently unavailable.' });
+    }
+  } catch (error) {
+    request.log.error(
+      { err: error, address: lowerCaseAddress },
+      `Failed to queue event backfill for ${lowerCaseAddress}`
+    );
+    return reply.code(500).send({ error: 'Failed to queue event backfill.' });
+  }
+
+  return reply.code(202).send({
+    status: 'backfill_triggered',
+    message: `Event history backfill initiated for ${lowerCaseAddress}.`,
+  });
+};
+
+// Controller for stored history coverage (GET /:address/coverage)
+export const getSyncCoverage = async (
+  request: FastifyRequest<{ Params: AddressParams }>,
+  reply: FastifyReply
+) => {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({ error: 'Invalid Ethereum address format.' });
+  }
+
+  const lowerCaseAddress = address.toLowerCase();
+
+  try {
+    const coverage = await getEventSyncCoverage(lowerCaseAddress);
+    return reply.code(200).send(coverage);
+  } catch (error) {
+    request.log.error(
+      { err: error, address: lowerCaseAddress },
+      `Failed to read event coverage for ${lowerCaseAddress}`
+    );
+    return reply
+      .code(500)
+      .send({ error: 'Failed to retrieve event history coverage.' });
+  }
+};
+
+// Controller for trading analytics over stored events (GET /:address/stats)
+export const getAccountStats = async (
+  request: FastifyRequest<{ Params: AddressParams }>,
+  reply: FastifyReply
+) => {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({ error: 'Invalid Ethereum address format.' });
+  }
+
+  const lowerCaseAddress = address.toLowerCase();
+
+  try {
+    const stats = await getAccountTradingStats(lowerCaseAddress);
+    return reply.code(200).send(stats);
+  } catch (error) {
+    request.log.error(
+      { err: error, address: lowerCaseAddress },
+      `Failed to compute trading stats for ${lowerCaseAddress}`
+    );
+    return reply
+      .code(500)
+      .send({ error: 'Failed to compute account trading stats.' });
+  }
+};
+
 // Controller for checking sync status (GET /:address/sync-status)
 export const getSyncStatus = async (
   request: FastifyRequest<{ Params: AddressParams }>,
@@ -126,8 +441,10 @@ export const getSyncStatus = async (
   const lowerCaseAddress = address.toLowerCase();
 
   try {
-    const status = checkSyncStatus(lowerCaseAddress);
-    return reply.code(200).send({ address: lowerCaseAddress, status: status });
+    const { state, ...progress } = await getEventSyncStatus(lowerCaseAddress);
+    return reply
+      .code(200)
+      .send({ address: lowerCaseAddress, status: state, ...progress });
   } catch (error) {
     request.log.error(
       { err: error, address: lowerCaseAddress },
@@ -136,3 +453,165 @@ export const getSyncStatus = async (
     return reply.code(500).send({ error: 'Failed to retrieve sync status.' });
   }
 };
+
+// Controller for live sync progress (GET /:address/sync/stream)
+// Starts or attaches to the address' sync and emits StreamMessages as SSE
+// events named after their `type`, ending with `complete` or `error`.
+export const streamAccountSync = async (
+  request: FastifyRequest<{ Params: AddressParams }>,
+  reply: FastifyReply
+) => {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({ error: 'Invalid Ethereum address format.' });
+  }
+
+  const lowerCaseAddress = address.toLowerCase();
+
+  let closed = false;
+  let keepAlive: NodeJS.Timeout | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const closeStream = () => {
+    if (closed) return;
+    closed = true;
+    if (keepAlive) clearInterval(keepAlive);
+    if (unsubscribe) unsubscribe();
+    reply.sseContext?.source.end();
+  };
+
+  const sendMessage = (message: StreamMessage) => {
+    if (closed) return;
+    reply.sse({ event: message.type, data: JSON.stringify(message) });
+  };
+
+  const sendCompleteAndClose = async () => {
+    const status = await getEventSyncStatus(lowerCaseAddress);
+    const elapsedTime =
+      status.startedAt && status.finishedAt
+        ? Date.parse(status.finishedAt) - Date.parse(status.startedAt)
+        : undefined;
+    sendMessage({
+      type: 'complete',
+      totalPages: status.pagesFetched,
+      totalEvents: status.eventsUpserted,
+      percentage: 100,
+      elapsedTime,
+    });
+    closeStream();
+  };
+
+  try {
+    // Subscribe before queuing so no progress update is missed
+    unsubscribe = subscribeToEventSyncJob(lowerCaseAddress, {
+      onProgress: (message) => sendMessage(message),
+      onCompleted: () => {
+        sendCompleteAndClose().catch((err) => {
+          request.log.error(
+            { err, address: lowerCaseAddress },
+            '[Event Sync Stream] Failed to send completion'
+          );
+          closeStream();
+        });
+      },
+      onFailed: (reason) => {
+        sendMessage({ type: 'error', error: reason });
+        closeStream();
+      },
+    });
+    request.raw.on('close', closeStream);
+
+    // Reuses a waiting or running sync, otherwise starts a new one
+    const job = await addEventSyncJob(lowerCaseAddress);
+    if (!job) {
+      sendMessage({
+        type: 'error',
+        error: 'Event sync queue is currently unavailable.',
+        status: 503,
+      });
+      closeStream();
+      return reply;
+    }
+
+    const status = await getEventSyncStatus(lowerCaseAddress);
+    sendMessage({
+      type: 'progress',
+      message:
+        status.state === 'queued'
+          ? 'Sync queued.'
+          : `Attached to ${status.state} sync.`,
+      currentPage: status.pagesFetched,
+      totalPages: MAX_PAGES_DEFAULT,
+      percentage: Math.min(
+        99,
+        Math.round((status.pagesFetched / MAX_PAGES_DEFAULT) * 100)
+      ),
+      totalEventsSoFar: status.eventsUpserted,
+    });
+
+    keepAlive = setInterval(() => {
+      if (!closed) reply.sse({ comment: 'keep-alive' });
+    }, SSE_KEEP_ALIVE_MS);
+    return reply;
+  } catch (error) {
+    request.log.error(
+      { err: error, address: lowerCaseAddress },
+      `[Event Sync Stream Error] Unexpected error for ${lowerCaseAddress}`
+    );
+    sendMessage({ type: 'error', error: 'Failed to stream event sync.' });
+    closeStream();
+    return reply;
+  }
+};
+
+// Controller for one token's provenance (GET /nft/:contract/:identifier)
+export const getTokenProvenance = async (
+  request: FastifyRequest<{ Params: TokenParams }>,
+  reply: FastifyReply
+) => {
+  const { contract, identifier } = request.params;
+
+  if (!ethers.isAddress(contract)) {
+    return reply.code(400).send({ error: 'Invalid contract address format.' });
+  }
+
+  const lowerCaseContract = contract.toLowerCase();
+
+  try {
+    let events = await getTokenEvents(lowerCaseContract, identifier);
+
+    // Nothing stored yet: sync this token now and wait briefly for it
+    if (events.length === 0) {
+      const outcome = await syncTokenEventsAndWait(
+        lowerCaseContract,
+        identifier,
+        TOKEN_SYNC_WAIT_MS
+      );
+      if (outcome === 'unavailable') {
+        return reply
+          .code(503)
+          .send({ error: 'Event sync queue is currently unavailable.' });
+      }
+      if (outcome === 'pending') {
+        return reply.code(202).send({
+          status: 'sync_triggered',
+          message: `Token history for ${lowerCaseContract}:${identifier} is still syncing. Please retry shortly.`,
+        });
+      }
+      events = await getTokenEvents(lowerCaseContract, identifier);
+    }
+
+    return reply
+      .code(200)
+      .send(buildTokenProvenance(lowerCaseContract, identifier, events));
+  } catch (error) {
+    request.log.error(
+      { err: error, contract: lowerCaseContract, identifier },
+      `Failed to build provenance for ${lowerCaseContract}:${identifier}`
+    );
+    return reply
+      .code(500)
+      .send({ error: 'Failed to retrieve token provenance.' });
+  }
+};
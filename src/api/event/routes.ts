@@ -3,6 +3,13 @@ import {
   getAccountActivity,
   triggerAccountSync,
   getSyncStatus,
+  streamAccountSync,
+  triggerAccountBackfill,
+  getSyncCoverage,
+  getAccountStats,
+  getCollectionActivity,
+  triggerCollectionSync,
+  getTokenProvenance,
 } from './controller';
 
 // Define schema for pagination query parameters
@@ -15,6 +22,58 @@ const paginationQuerySchema = {
   },
 };
 
+// Pagination, cursor and filters accepted by every activity feed
+const feedQueryProperties = {
+  ...paginationQuerySchema.properties,
+  cursor: {
+    type: 'string',
+    pattern: '^[A-Za-z0-9_-]*$',
+    description: 'Opaque `next` token; empty starts cursor mode',
+  },
+  event_type: {
+    type: 'string',
+    pattern: '^(sale|transfer|cancel)(,(sale|transfer|cancel))*$',
+    description: 'Comma-separated event types',
+  },
+  contract: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+  from: { type: 'string', description: 'ISO date or Unix ms (inclusive)' },
+  to: { type: 'string', description: 'ISO date or Unix ms (inclusive)' },
+};
+
+// Feed query plus the account-only filters for GET /:address
+const activityQuerySchema = {
+  $id: 'ActivityQuery',
+  type: 'object',
+  properties: {
+    ...feedQueryProperties,
+    collection: {
+      type: 'string',
+      minLength: 1,
+      description: 'Collection slug',
+    },
+    direction: { type: 'string', enum: ['in', 'out'] },
+  },
+};
+
+// Query for GET /collection/:slug
+const collectionActivityQuerySchema = {
+  $id: 'CollectionActivityQuery',
+  type: 'object',
+  properties: feedQueryProperties,
+};
+
+const collectionParamSchema = {
+  type: 'object',
+  properties: {
+    slug: {
+      type: 'string',
+      pattern: '^[a-zA-Z0-9_-]+$',
+      description: 'OpenSea collection slug',
+    },
+  },
+  required: ['slug'],
+};
+
 // Define schema for address path parameter
 const addressParamSchema = {
   $id: 'AddressParam',
@@ -25,21 +84,39 @@ const addressParamSchema = {
   required: ['address'],
 };
 
+// Pagination block shared by the account and collection feeds
+const paginationResponseSchema = {
+  type: 'object',
+  properties: {
+    currentPage: { type: ['number', 'null'] }, // null in cursor mode
+    limit: { type: 'number' },
+    totalPages: { type: 'number' },
+    totalItems: { type: 'number' },
+    next: { type: ['string', 'null'] },
+  },
+};
+
 // Response schema for GET /by-account/:address
 const getActivityResponseSchema = {
   200: {
     type: 'object',
     properties: {
       address: { type: 'string' },
-      pagination: {
-        type: 'object',
-        properties: {
-          currentPage: { type: 'number' },
-          limit: { type: 'number' },
-          totalPages: { type: 'number' },
-          totalItems: { type: 'number' },
-        },
-      },
+      pagination: paginationResponseSchema,
+      events: { type: 'array' },
+    },
+  },
+  400: { $ref: 'BadRequest#' },
+  500: { $ref: 'InternalServerError#' },
+};
+
+// Response schema for GET /collection/:slug
+const getCollectionActivityResponseSchema = {
+  200: {
+    type: 'object',
+    properties: {
+      collection: { type: 'string' },
+      pagination: paginationResponseSchema,
       events: { type: 'array' },
     },
   },
@@ -58,6 +135,7 @@ const triggerSyncResponseSchema = {
   },
   400: { $ref: 'BadRequest#' },
   500: { $ref: 'InternalServerError#' },
+  503: { $ref: 'ServiceUnavailable#' },
 };
 
 // Response schema for GET /:address/sync-status
@@ -66,32 +144,261 @@ const syncStatusResponseSchema = {
     type: 'object',
     properties: {
       address: { type: 'string' },
-      status: { type: 'string', enum: ['syncing', 'idle'] },
+      status: {
+        type: 'string',
+        enum: ['idle', 'queued', 'syncing', 'retrying', 'completed', 'failed'],
+      },
+      pagesFetched: { type: 'number' },
+      eventsUpserted: { type: 'number' },
+      attempts: { type: 'number' },
+      lastError: { type: ['string', 'null'] },
+      queuedAt: { type: ['string', 'null'] },
+      startedAt: { type: ['string', 'null'] },
+      finishedAt: { type: ['string', 'null'] },
+    },
+  },
+  400: { $ref: 'BadRequest#' },
+  500: { $ref: 'InternalServerError#' },
+};
+
+// Response schema for POST /:address/backfill
+const triggerBackfillResponseSchema = {
+  202: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['backfill_triggered'] },
+      message: { type: 'string' },
+    },
+  },
+  400: { $ref: 'BadRequest#' },
+  500: { $ref: 'InternalServerError#' },
+  503: { $ref: 'ServiceUnavailable#' },
+};
+
+const timeRangeSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'number' },
+    to: { type: 'number' },
+  },
+};
+
+// Response schema for GET /:address/coverage
+const coverageResponseSchema = {
+  200: {
+    type: 'object',
+    properties: {
+      address: { type: 'string' },
+      covered: { type: 'array', items: timeRangeSchema },
+      gaps: { type: 'array', items: timeRangeSchema },
+      historyComplete: { type: 'boolean' },
+      backfill: {
+        type: 'object',
+        properties: {
+          state: {
+            type: 'string',
+            enum: ['idle', 'running', 'completed', 'failed'],
+          },
+          gapFrom: { type: ['number', 'null'] },
+          gapTo: { type: ['number', 'null'] },
+          pagesFetched: { type: 'number' },
+          eventsUpserted: { type: 'number' },
+          lastError: { type: ['string', 'null'] },
+          checkpointAt: { type: ['string', 'null'] },
+        },
+      },
+    },
+  },
+  400: { $ref: 'BadRequest#' },
+  500: { $ref: 'InternalServerError#' },
+};
+
+const tradeTotalsSchema = {
+  type: 'object',
+  properties: {
+    count: { type: 'number' },
+    volumeEth: { type: 'number' },
+    volumeUsd: { type: 'number' },
+    volumeEur: { type: 'number' },
+    unpricedCount: { type: 'number' },
+  },
+};
+
+// Response schema for GET /:address/stats
+const accountStatsResponseSchema = {
+  200: {
+    type: 'object',
+    properties: {
+      address: { type: 'string' },
+      totalEvents: { type: 'number' },
+      firstActivityAt: { type: ['number', 'null'] },
+      lastActivityAt: { type: ['number', 'null'] },
+      buys: tradeTotalsSchema,
+      sells: tradeTotalsSchema,
+      averageHoldingTimeMs: { type: ['number', 'null'] },
+      completedHoldCount: { type: 'number' },
+      topCollections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string' },
+            buyCount: { type: 'number' },
+            sellCount: { type: 'number' },
+            volumeEth: { type: 'number' },
+          },
+        },
+      },
+      monthlyVolume: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            month: { type: 'string' },
+            buyCount: { type: 'number' },
+            sellCount: { type: 'number' },
+            buyVolumeEth: { type: 'number' },
+            sellVolumeEth: { type: 'number' },
+            volumeUsd: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  400: { $ref: 'BadRequest#' },
+  500: { $ref: 'InternalServerError#' },
+};
+
+const tokenParamSchema = {
+  type: 'object',
+  properties: {
+    contract: { type: 'string', description: 'NFT contract address (0x...)' },
+    identifier: {
+      type: 'string',
+      pattern: '^\\d+$',
+      description: 'Token ID',
+    },
+  },
+  required: ['contract', 'identifier'],
+};
+
+const holdingPeriodSchema = {
+  type: 'object',
+  properties: {
+    owner: { type: 'string' },
+    from: { type: 'number' },
+    to: { type: ['number', 'null'] },
+    durationMs: { type: 'number' },
+    acquiredVia: { type: 'string', enum: ['mint', 'sale', 'transfer'] },
+    acquiredTransaction: { type: 'string' },
+    acquiredPriceEth: { type: ['number', 'null'] },
+    exitVia: {
+      type: ['string', 'null'],
+      enum: ['sale', 'transfer', 'burn', null],
+    },
+    exitTransaction: { type: ['string', 'null'] },
+    exitPriceEth: { type: ['number', 'null'] },
+  },
+};
+
+const salePointSchema = {
+  type: 'object',
+  properties: {
+    timestamp: { type: 'number' },
+    transaction: { type: 'string' },
+    seller: { type: 'string' },
+    buyer: { type: 'string' },
+    amount: { type: 'number' },
+    symbol: { type: 'string' },
+    priceEth: { type: ['number', 'null'] },
+    priceUsd: { type: ['number', 'null'] },
+    priceEur: { type: ['number', 'null'] },
+    changePercent: { type: ['number', 'null'] },
+  },
+};
+
+// Response schema for GET /nft/:contract/:identifier
+const tokenProvenanceResponseSchema = {
+  200: {
+    type: 'object',
+    properties: {
+      contract: { type: 'string' },
+      identifier: { type: 'string' },
+      name: { type: ['string', 'null'] },
+      collection: { type: ['string', 'null'] },
+      image_url: { type: ['string', 'null'] },
+      currentOwners: { type: 'array', items: { type: 'string' } },
+      ownershipChanges: { type: 'number' },
+      saleCount: { type: 'number' },
+      holdingPeriods: { type: 'array', items: holdingPeriodSchema },
+      pricePath: { type: 'array', items: salePointSchema },
+      events: { type: 'array' },
     },
   },
+  202: triggerSyncResponseSchema[202],
   400: { $ref: 'BadRequest#' },
   500: { $ref: 'InternalServerError#' },
+  503: { $ref: 'ServiceUnavailable#' },
 };
 
 async function eventRoutes(fastify: FastifyInstance) {
   // Register reusable schemas
   fastify.addSchema(paginationQuerySchema);
+  fastify.addSchema(activityQuerySchema);
+  fastify.addSchema(collectionActivityQuerySchema);
+
+  // GET /api/event/collection/:slug - Paginated, filterable collection feed from DB
+  fastify.get(
+    '/collection/:slug',
+    {
+      schema: {
+        params: collectionParamSchema,
+        querystring: { $ref: 'CollectionActivityQuery#' },
+        response: getCollectionActivityResponseSchema,
+      },
+    },
+    getCollectionActivity
+  );
+
+  // GET /api/event/nft/:contract/:identifier - Token ownership & sale history (syncs on demand)
+  fastify.get(
+    '/nft/:contract/:identifier',
+    {
+      schema: {
+        params: tokenParamSchema,
+        response: tokenProvenanceResponseSchema,
+      },
+    },
+    getTokenProvenance
+  );
+
+  // POST /api/event/collection/:slug/sync - Queues a background collection sync
+  fastify.post(
+    '/collection/:slug/sync',
+    {
+      schema: {
+        params: collectionParamSchema,
+        response: triggerSyncResponseSchema,
+      },
+    },
+    triggerCollectionSync
+  );
   fastify.addSchema(addressParamSchema);
 
-  // GET /api/event/:address - Returns paginated events from DB
+  // GET /api/event/:address - Returns paginated, optionally filtered events from DB
   fastify.get(
     '/:address',
     {
       schema: {
         params: { $ref: 'AddressParam#' },
-        querystring: { $ref: 'PaginationQuery#' },
+        querystring: { $ref: 'ActivityQuery#' },
         response: getActivityResponseSchema,
       },
     },
     getAccountActivity
   );
 
-  // POST /api/event/:address/sync - Triggers background sync
+  // POST /api/event/:address/sync - Queues a background sync
   fastify.post(
     '/:address/sync',
     {
@@ -103,7 +410,7 @@ async function eventRoutes(fastify: FastifyInstance) {
     triggerAccountSync
   );
 
-  // GET /api/event/:address/sync-status - Checks if sync is running
+  // GET /api/event/:address/sync-status - Returns the last sync's status and progress
   fastify.get(
     '/:address/sync-status',
     {
@@ -114,6 +421,53 @@ async function eventRoutes(fastify: FastifyInstance) {
     },
     getSyncStatus
   );
+
+  // POST /api/event/:address/backfill - Queues a resumable backward history backfill
+  fastify.post(
+    '/:address/backfill',
+    {
+      schema: {
+        params: { $ref: 'AddressParam#' },
+        response: triggerBackfillResponseSchema,
+      },
+    },
+    triggerAccountBackfill
+  );
+
+  // GET /api/event/:address/coverage - Covered time ranges, gaps & backfill checkpoint
+  fastify.get(
+    '/:address/coverage',
+    {
+      schema: {
+        params: { $ref: 'AddressParam#' },
+        response: coverageResponseSchema,
+      },
+    },
+    getSyncCoverage
+  );
+
+  // GET /api/event/:address/stats - Trading analytics over stored sales & transfers
+  fastify.get(
+    '/:address/stats',
+    {
+      schema: {
+        params: { $ref: 'AddressParam#' },
+        response: accountStatsResponseSchema,
+      },
+    },
+    getAccountStats
+  );
+
+  // GET /api/event/:address/sync/stream - SSE progress, new event chunks & completion
+  fastify.get(
+    '/:address/sync/stream',
+    {
+      schema: {
+        params: { $ref: 'AddressParam#' },
+      },
+    },
+    streamAccountSync
+  );
 }
 
 export default eventRoutes;
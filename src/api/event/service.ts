@@ -1,5 +1,31 @@
-import { RawOpenSeaApiResponse, RawOpenSeaEvent, ActivityEvent } from './types';
+import {
+  RawOpenSeaApiResponse,
+  RawOpenSeaEvent,
+  ActivityEvent,
+  AccountEventFilters,
+  EventCursor,
+  EventTimeRange,
+  EventSyncCoverageInfo,
+  TokenProvenance,
+  TokenHoldingPeriod,
+  TokenSalePoint,
+  SalePrice,
+  TradeTotals,
+  CollectionTradeStats,
+  MonthlyTradeVolume,
+  AccountTradingStats,
+} from './types';
 import ActivityEventModel, { IActivityEvent } from '../../models/ActivityEvent';
+import EventSyncCoverageModel from '../../models/EventSyncCoverage';
+import CollectionEventSyncStateModel from '../../models/CollectionEventSyncState';
+import {
+  DailyPrice,
+  PRICED_TOKENS,
+  getDailyPrices,
+  toPriceDay,
+} from '../../services/priceHistoryService';
+import { FilterQuery, PipelineStage, Types, isValidObjectId } from 'mongoose';
+import { ethers } from 'ethers';
 import axios from 'axios';
 import dotenv from 'dotenv';
 
@@ -13,7 +39,13 @@ const OPENSEA_LIMIT = 50; // Max allowed by OpenSea is 50 for V2 account events
 const MAX_RETRIES = 5; // Number of retries for rate limits / server errors
 const RETRY_DELAY = 5000; // Delay between retries in milliseconds (5 seconds)
 const INTER_PAGE_DELAY = 300; // Small delay between fetching pages
-const MAX_PAGES_DEFAULT = 20; // Default max pages for background sync
+export const MAX_PAGES_DEFAULT = 20; // Default max pages for background sync
+const BACKFILL_MAX_PAGES_PER_RUN = 500; // Backfill jobs pause here and resume from their checkpoint
+const PRICING_BATCH_SIZE = 500; // Stored sales valued per batch by priceStoredSales
+const TOP_COLLECTIONS_LIMIT = 10; // Collections listed in account trading stats
+
+const ETH_PAYMENT_SYMBOLS = ['ETH', 'WETH']; // Payment tokens valued 1:1 with ETH
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
 // Helper function to pause execution
 const sleep = (ms: number): Promise<void> =>
@@ -190,28 +222,144 @@ const mapRawEventToActivityEvent = (
   };
 };
 
+// Adds the type / collection / contract / date filters to an event query
+const applyEventFilters = (
+  query: FilterQuery<IActivityEvent>,
+  filters: AccountEventFilters
+): FilterQuery<IActivityEvent> => {
+  if (filters.eventTypes && filters.eventTypes.length > 0) {
+    query.event_type = { $in: filters.eventTypes };
+  }
+  if (filters.collection) {
+    query['nft.collection'] = filters.collection;
+  }
+  if (filters.contract) {
+    query['nft.contract'] = filters.contract.toLowerCase();
+  }
+  if (filters.from !== undefined || filters.to !== undefined) {
+    query.created_date = {
+      ...(filters.from !== undefined && { $gte: filters.from }),
+      ...(filters.to !== undefined && { $lte: filters.to }),
+    };
+  }
+  return query;
+};
+
+// Builds the Mongo query for an account's events; each filter is backed by a
+// compound index on the ActivityEvent model
+const buildAccountEventQuery = (
+  address: string,
+  filters: AccountEventFilters
+): FilterQuery<IActivityEvent> => {
+  const lowerCaseAddress = address.toLowerCase();
+  const query: FilterQuery<IActivityEvent> = {};
+
+  if (filters.direction === 'in') {
+    query['to_account.address'] = lowerCaseAddress;
+  } else if (filters.direction === 'out') {
+    query['from_account.address'] = lowerCaseAddress;
+  } else {
+    query.$or = [
+      { 'from_account.address': lowerCaseAddress },
+      { 'to_account.address': lowerCaseAddress },
+    ];
+  }
+  return applyEventFilters(query, filters);
+};
+
+// Collection feeds take the same filters, minus direction and collection
+const buildCollectionEventQuery = (
+  slug: string,
+  filters: AccountEventFilters
+): FilterQuery<IActivityEvent> =>
+  applyEventFilters(
+    { 'nft.collection': slug },
+    { ...filters, collection: slug }
+  );
+
+// Stable sort for activity lists; _id breaks ties between same-second events
+const EVENT_SORT = { created_date: -1, _id: -1 } as const;
+
+// Opaque `next` token: base64url JSON of the last event's sort key
+export const encodeEventCursor = (event: {
+  created_date: number;
+  _id: unknown;
+}): string =>
+  Buffer.from(
+    JSON.stringify({ d: event.created_date, i: String(event._id) })
+  ).toString('base64url');
+
+// Returns null for tokens this service did not issue
+export const decodeEventCursor = (token: string): EventCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, 'base64url').toString());
+    if (typeof parsed?.d !== 'number' || !isValidObjectId(parsed?.i)) {
+      return null;
+    }
+    return { createdDate: parsed.d, id: String(parsed.i) };
+  } catch {
+    return null;
+  }
+};
+
+// Events strictly after the cursor in EVENT_SORT order
+const afterCursorQuery = (cursor: EventCursor): FilterQuery<IActivityEvent> => {
+  const id = new Types.ObjectId(cursor.id);
+  return {
+    $or: [
+      { created_date: { $lt: cursor.createdDate } },
+      { created_date: cursor.createdDate, _id: { $lt: id } },
+    ],
+  };
+};
+
+// Skip/limit page of events matching `query`, newest first
+const findEventsPage = async (
+  query: FilterQuery<IActivityEvent>,
+  skip: number,
+  limit: number
+): Promise<IActivityEvent[]> =>
+  (await ActivityEventModel.find(query)
+    .sort(EVENT_SORT) // Newest first, stable across pages
+    .skip(skip) // Apply pagination skip
+    .limit(limit) // Apply pagination limit
+    .lean()) as IActivityEvent[]; // Plain JS objects are enough downstream
+
+// Keyset page after `cursor` (or the first page when null). Unlike skip-based
+// pages it stays fast for large histories and doesn't shift during a sync.
+const findEventsAfterCursor = async (
+  query: FilterQuery<IActivityEvent>,
+  cursor: EventCursor | null,
+  limit: number
+): Promise<{ events: IActivityEvent[]; next: string | null }> => {
+  const events = (await ActivityEventModel.find(
+    cursor ? { $and: [query, afterCursorQuery(cursor)] } : query
+  )
+    .sort(EVENT_SORT)
+    .limit(limit + 1) // One extra to know whether another page exists
+    .lean()) as IActivityEvent[];
+
+  const hasMore = events.length > limit;
+  const page = hasMore ? events.slice(0, limit) : events;
+  return {
+    events: page,
+    next: hasMore ? encodeEventCursor(page[page.length - 1]) : null,
+  };
+};
+
 // --- NEW: Fetch Paginated Events from DB using Mongoose ---
 export const getPaginatedAccountEvents = async (
   address: string,
   skip: number,
-  limit: number
+  limit: number,
+  filters: AccountEventFilters = {}
 ): Promise<IActivityEvent[]> => {
   try {
-    const lowerCaseAddress = address.toLowerCase();
-    // Use Mongoose Model to find events
-    const events = await ActivityEventModel.find({
-      $or: [
-        { 'from_account.address': lowerCaseAddress },
-        { 'to_account.address': lowerCaseAddress },
-      ],
-    })
-      .sort({ created_date: -1 }) // Sort by creation date descending
-      .skip(skip) // Apply pagination skip
-      .limit(limit) // Apply pagination limit
-      .lean(); // Use .lean() for plain JS objects if full Mongoose docs aren't needed downstream
-
-    // The model schema ensures lowercase comparison, but explicit lowercase here is safe.
-    return events as IActivityEvent[]; // Cast if using lean()
+    return await findEventsPage(
+      buildAccountEventQuery(address, filters),
+      skip,
+      limit
+    );
   } catch (error) {
     console.error(
       `[Event Service] Mongoose error fetching paginated events for ${address}:`,
@@ -221,19 +369,37 @@ export const getPaginatedAccountEvents = async (
   }
 };
 
+export const getAccountEventsAfterCursor = async (
+  address: string,
+  cursor: EventCursor | null,
+  limit: number,
+  filters: AccountEventFilters = {}
+): Promise<{ events: IActivityEvent[]; next: string | null }> => {
+  try {
+    return await findEventsAfterCursor(
+      buildAccountEventQuery(address, filters),
+      cursor,
+      limit
+    );
+  } catch (error) {
+    console.error(
+      `[Event Service] Mongoose error fetching events after cursor for ${address}:`,
+      error
+    );
+    throw new Error('Failed to retrieve events from database.');
+  }
+};
+
 // --- NEW: Get Total Event Count from DB using Mongoose ---
 export const getAccountEventCount = async (
-  address: string
+  address: string,
+  filters: AccountEventFilters = {}
 ): Promise<number> => {
   try {
-    const lowerCaseAddress = address.toLowerCase();
     // Use Mongoose Model to count documents
-    const count = await ActivityEventModel.countDocuments({
-      $or: [
-        { 'from_account.address': lowerCaseAddress },
-        { 'to_account.address': lowerCaseAddress },
-      ],
-    });
+    const count = await ActivityEventModel.countDocuments(
+      buildAccountEventQuery(address, filters)
+    );
     return count;
   } catch (error) {
     console.error(
@@ -244,220 +410,1201 @@ export const getAccountEventCount = async (
   }
 };
 
-// In-memory lock to prevent concurrent syncs for the same address
-const isSyncing = new Set<string>();
+// --- Collection Feed ---
 
-// Export a function to check the sync status
-export function checkSyncStatus(address: string): 'syncing' | 'idle' {
-  return isSyncing.has(address.toLowerCase()) ? 'syncing' : 'idle';
-}
+export const getPaginatedCollectionEvents = async (
+  slug: string,
+  skip: number,
+  limit: number,
+  filters: AccountEventFilters = {}
+): Promise<IActivityEvent[]> => {
+  try {
+    return await findEventsPage(
+      buildCollectionEventQuery(slug, filters),
+      skip,
+      limit
+    );
+  } catch (error) {
+    console.error(
+      `[Event Service] Mongoose error fetching paginated events for collection ${slug}:`,
+      error
+    );
+    throw new Error('Failed to retrieve events from database.');
+  }
+};
 
-export async function syncAccountEventsInBackground(address: string) {
-  const lowerCaseAddress = address.toLowerCase();
-  if (isSyncing.has(lowerCaseAddress)) {
-    console.log(
-      `[Event Service Sync] Sync already in progress for ${lowerCaseAddress}, skipping.`
+export const getCollectionEventsAfterCursor = async (
+  slug: string,
+  cursor: EventCursor | null,
+  limit: number,
+  filters: AccountEventFilters = {}
+): Promise<{ events: IActivityEvent[]; next: string | null }> => {
+  try {
+    return await findEventsAfterCursor(
+      buildCollectionEventQuery(slug, filters),
+      cursor,
+      limit
+    );
+  } catch (error) {
+    console.error(
+      `[Event Service] Mongoose error fetching events after cursor for collection ${slug}:`,
+      error
     );
-    return;
+    throw new Error('Failed to retrieve events from database.');
   }
+};
 
-  if (!OPENSEA_API_KEY) {
+export const getCollectionEventCount = async (
+  slug: string,
+  filters: AccountEventFilters = {}
+): Promise<number> => {
+  try {
+    return await ActivityEventModel.countDocuments(
+      buildCollectionEventQuery(slug, filters)
+    );
+  } catch (error) {
     console.error(
-      `[Event Service Sync] OPENSEA_API_KEY is missing or empty. Cannot start sync for ${lowerCaseAddress}.`
+      `[Event Service] Mongoose error counting events for collection ${slug}:`,
+      error
     );
-    return;
+    throw new Error('Failed to count events in database.');
   }
+};
 
-  isSyncing.add(lowerCaseAddress);
-  console.log(
-    `[Event Service Sync] Starting background sync for ${lowerCaseAddress}...`
-  );
+// --- Sale Pricing ---
 
+// Scales a stored sale payment by its decimals; null when unparseable
+function paymentAmount(payment: {
+  quantity: string;
+  decimals: string;
+}): number | null {
   try {
-    // --- Restore Core Fetching Logic ---
-    let nextCursor: string | null = null;
-    let pagesFetched = 0;
-    let totalEventsProcessed = 0;
-    let rateLimitRetryCount = 0;
-    let keepFetching = true;
-    const startTime = Date.now();
-    const maxPages = MAX_PAGES_DEFAULT;
-
-    // Get the timestamp of the most recent event stored for this account
-    const latestEvent = await ActivityEventModel.findOne({
+    return parseFloat(
+      ethers.formatUnits(BigInt(payment.quantity), Number(payment.decimals))
+    );
+  } catch {
+    return null;
+  }
+}
+
+// Values one payment with the prices of its day (keyed `${symbol}:${date}`).
+// ETH and WETH count 1:1 as ETH; other tokens convert via their USD price.
+function valuePayment(
+  payment: NonNullable<ActivityEvent['payment']>,
+  date: string,
+  prices: Map<string, DailyPrice>
+): SalePrice {
+  const amount = paymentAmount(payment);
+  if (amount === null) return { eth: null, usd: null, eur: null };
+
+  const symbol = payment.symbol.toUpperCase();
+  const isEth = ETH_PAYMENT_SYMBOLS.includes(symbol);
+  const ethPrice = prices.get(`ETH:${date}`);
+  // WETH falls back to the ETH price on days it has no price of its own
+  const tokenPrice =
+    prices.get(`${symbol}:${date}`) ?? (isEth ? ethPrice : undefined);
+
+  let eth: number | null = null;
+  if (isEth) {
+    eth = amount;
+  } else if (tokenPrice && ethPrice && ethPrice.usd > 0) {
+    eth = (amount * tokenPrice.usd) / ethPrice.usd;
+  }
+  return {
+    eth,
+    usd: tokenPrice ? amount * tokenPrice.usd : null,
+    eur: tokenPrice ? amount * tokenPrice.eur : null,
+  };
+}
+
+// Sets `price` on each sale from the price history of the sale's UTC day
+async function priceSaleEvents(
+  events: Pick<
+    ActivityEvent,
+    'event_type' | 'created_date' | 'payment' | 'price'
+  >[]
+): Promise<void> {
+  const sales = events.filter(
+    (event) => event.event_type === 'sale' && event.payment
+  );
+  if (sales.length === 0) return;
+
+  const symbols = new Set<string>(['ETH']);
+  const dates = new Set<string>();
+  for (const sale of sales) {
+    symbols.add(sale.payment!.symbol.toUpperCase());
+    dates.add(toPriceDay(sale.created_date));
+  }
+  const prices = await getDailyPrices([...symbols], [...dates]);
+
+  for (const sale of sales) {
+    sale.price = valuePayment(
+      sale.payment!,
+      toPriceDay(sale.created_date),
+      prices
+    );
+  }
+}
+
+// Values stored sales that have no `price` yet (stored before sales were
+// priced) and re-values sales in tracked tokens stored before their day had a
+// price. `since` (ms) limits it to recent sales. Returns the number updated.
+export const priceStoredSales = async (since?: number): Promise<number> => {
+  let updated = 0;
+  let lastId: Types.ObjectId | null = null;
+  const trackedSymbols = Object.keys(PRICED_TOKENS).flatMap((symbol) => [
+    symbol,
+    symbol.toLowerCase(),
+  ]);
+
+  for (;;) {
+    const query: FilterQuery<IActivityEvent> = {
+      event_type: 'sale',
+      payment: { $exists: true },
       $or: [
-        { 'from_account.address': lowerCaseAddress },
-        { 'to_account.address': lowerCaseAddress },
+        { price: { $exists: false } },
+        { 'price.usd': null, 'payment.symbol': { $in: trackedSymbols } },
       ],
-    })
-      .sort({ created_date: -1 })
-      .select({ created_date: 1 })
+    };
+    if (since !== undefined) query.created_date = { $gte: since };
+    if (lastId) query._id = { $gt: lastId };
+
+    const batch = await ActivityEventModel.find(query)
+      .sort({ _id: 1 })
+      .limit(PRICING_BATCH_SIZE)
+      .select({ event_type: 1, created_date: 1, payment: 1 })
       .lean();
+    if (batch.length === 0) break;
 
-    // Note: API uses occurred_after (seconds), DB uses created_date (ms)
-    const occurredAfter = latestEvent
-      ? Math.floor(latestEvent.created_date / 1000)
-      : null;
+    await priceSaleEvents(batch);
+    await ActivityEventModel.bulkWrite(
+      batch.map((sale) => ({
+        updateOne: {
+          filter: { _id: sale._id },
+          update: { $set: { price: sale.price } },
+        },
+      })),
+      { ordered: false }
+    );
+    updated += batch.length;
+    lastId = batch[batch.length - 1]._id as Types.ObjectId;
+  }
 
-    if (occurredAfter) {
-      console.log(
-        `[Event Service Sync] Found latest event at timestamp ${latestEvent?.created_date}. Fetching events after ${occurredAfter} (seconds).`
-      );
+  if (updated > 0) {
+    console.log(`[Event Service] Priced ${updated} previously stored sales.`);
+  }
+  return updated;
+};
+
+// ETH value of a stored sale. Sales stored before pricing fall back to the
+// raw payment, which only converts for ETH and WETH.
+export function saleValueEth(
+  sale: Pick<ActivityEvent, 'payment' | 'price'>
+): number | null {
+  if (sale.price) return sale.price.eth;
+  if (
+    !sale.payment ||
+    !ETH_PAYMENT_SYMBOLS.includes(sale.payment.symbol.toUpperCase())
+  ) {
+    return null;
+  }
+  return paymentAmount(sale.payment);
+}
+
+// --- Token Provenance ---
+
+// All stored events of one token, oldest first (uses the contract + identifier index)
+export const getTokenEvents = async (
+  contract: string,
+  identifier: string
+): Promise<IActivityEvent[]> => {
+  try {
+    return (await ActivityEventModel.find({
+      'nft.contract': contract.toLowerCase(),
+      'nft.identifier': identifier,
+    })
+      .sort({ created_date: 1, _id: 1 })
+      .lean()) as IActivityEvent[];
+  } catch (error) {
+    console.error(
+      `[Event Service] Mongoose error fetching events for token ${contract}:${identifier}:`,
+      error
+    );
+    throw new Error('Failed to retrieve events from database.');
+  }
+};
+
+/**
+ * Replays a token's events into holding periods and a sale price path.
+ * A marketplace sale is usually stored next to the transfer of the same
+ * transaction, so each transaction counts as one ownership change (the sale
+ * when there is one). Cancels don't move the token and are skipped.
+ */
+export function buildTokenProvenance(
+  contract: string,
+  identifier: string,
+  events: ActivityEvent[]
+): TokenProvenance {
+  const now = Date.now();
+
+  // One ownership change per transaction, preferring the sale
+  const changes: ActivityEvent[] = [];
+  const changeByTransaction = new Map<string, number>();
+  for (const event of events) {
+    if (event.event_type !== 'sale' && event.event_type !== 'transfer') {
+      continue;
     }
+    const index = event.transaction
+      ? changeByTransaction.get(event.transaction)
+      : undefined;
+    if (index === undefined) {
+      if (event.transaction) {
+        changeByTransaction.set(event.transaction, changes.length);
+      }
+      changes.push(event);
+    } else if (event.event_type === 'sale') {
+      changes[index] = event;
+    }
+  }
 
-    // *** The Main Fetch Loop ***
-    while (keepFetching && pagesFetched < maxPages) {
-      pagesFetched++;
-      console.log(
-        `[Event Service Sync] Fetching page ${pagesFetched} ${nextCursor ? 'with cursor ' + nextCursor : ''}`
-      );
+  const holdingPeriods: TokenHoldingPeriod[] = [];
+  const openPeriods = new Map<string, TokenHoldingPeriod>(); // By owner
+  const pricePath: TokenSalePoint[] = [];
+  let lastPriceEth: number | null = null;
 
-      try {
-        const url = new URL(
-          `${OPENSEA_API_BASE_URL}/events/accounts/${lowerCaseAddress}`
-        );
-        OPENSEA_EVENT_TYPES.forEach((type) =>
-          url.searchParams.append('event_type', type)
-        );
-        url.searchParams.append('limit', String(OPENSEA_LIMIT));
-        if (nextCursor) {
-          url.searchParams.append('next', nextCursor);
-        }
-        if (occurredAfter) {
-          url.searchParams.append('occurred_after', String(occurredAfter));
-        }
+  for (const change of changes) {
+    const isSale = change.event_type === 'sale';
+    const from = change.from_account.address.toLowerCase();
+    const to = change.to_account.address.toLowerCase();
+    const priceEth = isSale ? saleValueEth(change) : null;
 
-        // Make the API call
-        const response = await axios.get<RawOpenSeaApiResponse>(
-          url.toString(),
-          {
-            headers: {
-              accept: 'application/json',
-              'x-api-key': OPENSEA_API_KEY,
-            },
-            timeout: 15000, // Use FETCH_TIMEOUT_MS constant?
-          }
-        );
+    if (isSale && change.payment) {
+      pricePath.push({
+        timestamp: change.created_date,
+        transaction: change.transaction,
+        seller: from,
+        buyer: to,
+        amount: paymentAmount(change.payment) ?? 0,
+        symbol: change.payment.symbol,
+        priceEth,
+        priceUsd: change.price?.usd ?? null,
+        priceEur: change.price?.eur ?? null,
+        changePercent:
+          priceEth !== null && lastPriceEth !== null && lastPriceEth > 0
+            ? ((priceEth - lastPriceEth) / lastPriceEth) * 100
+            : null,
+      });
+      if (priceEth !== null) lastPriceEth = priceEth;
+    }
 
-        const rawEvents = response.data.asset_events || [];
-        nextCursor = response.data.next || null;
-        rateLimitRetryCount = 0; // Reset retries on successful fetch
+    const exiting = openPeriods.get(from);
+    if (exiting) {
+      exiting.to = change.created_date;
+      exiting.durationMs = change.created_date - exiting.from;
+      exiting.exitVia = isSale
+        ? 'sale'
+        : to === ZERO_ADDRESS
+          ? 'burn'
+          : 'transfer';
+      exiting.exitTransaction = change.transaction;
+      exiting.exitPriceEth = priceEth;
+      openPeriods.delete(from);
+    }
 
-        if (rawEvents.length === 0) {
-          console.log(
-            `[Event Service Sync] Page ${pagesFetched}: No more new events returned by API.`
-          );
-          keepFetching = false;
-        } else {
-          console.log(
-            `[Event Service Sync] Page ${pagesFetched}: Received ${rawEvents.length} raw events.`
-          );
+    if (to !== ZERO_ADDRESS && !openPeriods.has(to)) {
+      const period: TokenHoldingPeriod = {
+        owner: to,
+        from: change.created_date,
+        to: null,
+        durationMs: Math.max(0, now - change.created_date),
+        acquiredVia:
+          from === ZERO_ADDRESS ? 'mint' : isSale ? 'sale' : 'transfer',
+        acquiredTransaction: change.transaction,
+        acquiredPriceEth: priceEth,
+        exitVia: null,
+        exitTransaction: null,
+        exitPriceEth: null,
+      };
+      holdingPeriods.push(period);
+      openPeriods.set(to, period);
+    }
+  }
 
-          // Map and filter events
-          const mappedEvents = rawEvents
-            .map(mapRawEventToActivityEvent)
-            .filter((e) => e !== null) as ActivityEvent[]; // Filter out nulls
-          console.log(
-            `[Event Service Sync] Page ${pagesFetched}: Mapped to ${mappedEvents.length} valid activity events.`
-          );
+  const latest = events[events.length - 1];
+  return {
+    contract: contract.toLowerCase(),
+    identifier,
+    name: latest?.nft.name ?? null,
+    collection: latest?.nft.collection ?? null,
+    image_url: latest?.nft.image_url ?? null,
+    currentOwners: [...openPeriods.keys()],
+    ownershipChanges: changes.length,
+    saleCount: pricePath.length,
+    holdingPeriods,
+    pricePath,
+    events,
+  };
+}
+
+// --- Account Trading Stats ---
+
+// $group accumulators for TradeTotals ($sum skips sales without a price)
+const tradeTotalsGroup = {
+  count: { $sum: 1 },
+  volumeEth: { $sum: '$price.eth' },
+  volumeUsd: { $sum: '$price.usd' },
+  volumeEur: { $sum: '$price.eur' },
+  unpricedCount: {
+    $sum: { $cond: [{ $eq: [{ $ifNull: ['$price.eth', null] }, null] }, 1, 0] },
+  },
+};
 
-          totalEventsProcessed += mappedEvents.length;
-
-          // Use Mongoose bulkWrite for efficient upsert
-          if (mappedEvents.length > 0) {
-            const bulkOps = mappedEvents.map((event) => ({
-              updateOne: {
-                filter: {
-                  // Define a unique key for upsert
-                  transaction: event.transaction,
-                  event_type: event.event_type,
-                  'nft.identifier': event.nft.identifier,
-                  // Add more fields if needed for uniqueness, e.g., log_index
+// Buy/sell totals, top collections and monthly buckets in one pass over the
+// account's sales (each $or branch uses the (side, event_type) index).
+// Self-trades (seller and buyer both the account) are left out.
+function accountSalesPipeline(address: string): PipelineStage[] {
+  const isBuy = { $eq: ['$side', 'buy'] };
+  return [
+    { $match: buildAccountEventQuery(address, { eventTypes: ['sale'] }) },
+    {
+      $match: {
+        $expr: { $ne: ['$from_account.address', '$to_account.address'] },
+      },
+    },
+    {
+      $addFields: {
+        side: {
+          $cond: [{ $eq: ['$to_account.address', address] }, 'buy', 'sell'],
+        },
+      },
+    },
+    {
+      $facet: {
+        totals: [{ $group: { _id: '$side', ...tradeTotalsGroup } }],
+        collections: [
+          {
+            $group: {
+              _id: '$nft.collection',
+              buyCount: { $sum: { $cond: [isBuy, 1, 0] } },
+              sellCount: { $sum: { $cond: [isBuy, 0, 1] } },
+              volumeEth: { $sum: '$price.eth' },
+            },
+          },
+          { $addFields: { tradeCount: { $add: ['$buyCount', '$sellCount'] } } },
+          { $sort: { tradeCount: -1, volumeEth: -1, _id: 1 } },
+          { $limit: TOP_COLLECTIONS_LIMIT },
+        ],
+        monthly: [
+          {
+            $group: {
+              _id: {
+                $dateToString: {
+                  format: '%Y-%m',
+                  date: { $toDate: '$created_date' },
                 },
-                update: { $set: event },
-                upsert: true,
               },
-            }));
-
-            console.log(
-              `[Event Service Sync] Attempting bulkWrite with ${bulkOps.length} operations...`
-            );
-            const bulkResult = await ActivityEventModel.bulkWrite(
-              bulkOps as any[], // Cast might be needed depending on TS/Mongoose setup
-              { ordered: false } // Unordered is faster, continues on error
-            );
-            console.log(
-              `[Event Service Sync] BulkWrite complete. Upserted: ${bulkResult.upsertedCount}, Matched: ${bulkResult.matchedCount}, Modified: ${bulkResult.modifiedCount}`
-            );
-          }
-        }
+              buyCount: { $sum: { $cond: [isBuy, 1, 0] } },
+              sellCount: { $sum: { $cond: [isBuy, 0, 1] } },
+              buyVolumeEth: { $sum: { $cond: [isBuy, '$price.eth', 0] } },
+              sellVolumeEth: { $sum: { $cond: [isBuy, 0, '$price.eth'] } },
+              volumeUsd: { $sum: '$price.usd' },
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+      },
+    },
+  ];
+}
 
-        // Stop if no next cursor
-        if (!nextCursor) {
-          console.log(
-            `[Event Service Sync] No next cursor provided by API. Ending fetch.`
-          );
-          keepFetching = false;
-        }
+// Replays each token's sales and transfers in time order: a hold opens when
+// the token arrives and closes when it leaves. Open holds are not counted.
+function accountHoldingPipeline(address: string): PipelineStage[] {
+  return [
+    {
+      $match: buildAccountEventQuery(address, {
+        eventTypes: ['sale', 'transfer'],
+      }),
+    },
+    { $sort: { created_date: 1, _id: 1 } },
+    {
+      $group: {
+        _id: { contract: '$nft.contract', identifier: '$nft.identifier' },
+        moves: {
+          $push: {
+            at: '$created_date',
+            incoming: { $eq: ['$to_account.address', address] },
+          },
+        },
+      },
+    },
+    {
+      $project: {
+        hold: {
+          $reduce: {
+            input: '$moves',
+            initialValue: { since: null, total: 0, count: 0 },
+            in: {
+              $cond: [
+                '$$this.incoming',
+                {
+                  // The sale and its transfer both arrive; keep the first
+                  since: { $ifNull: ['$$value.since', '$$this.at'] },
+                  total: '$$value.total',
+                  count: '$$value.count',
+                },
+                {
+                  $cond: [
+                    { $eq: ['$$value.since', null] },
+                    '$$value',
+                    {
+                      since: null,
+                      total: {
+                        $add: [
+                          '$$value.total',
+                          { $subtract: ['$$this.at', '$$value.since'] },
+                        ],
+                      },
+                      count: { $add: ['$$value.count', 1] },
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        totalMs: { $sum: '$hold.total' },
+        count: { $sum: '$hold.count' },
+      },
+    },
+  ];
+}
 
-        // Add delay between pages if continuing
-        if (keepFetching) {
-          await sleep(INTER_PAGE_DELAY); // Ensure sleep and INTER_PAGE_DELAY are defined
-        }
-      } catch (error) {
-        // --- Handle Axios errors within the loop ---
-        if (axios.isAxiosError(error)) {
-          const status = error.response?.status;
-          if (status === 429 || status === 503 || status === 504) {
-            // Rate limit or server unavailable
-            rateLimitRetryCount++;
-            if (rateLimitRetryCount <= MAX_RETRIES) {
-              // Use MAX_RETRIES constant
-              const delay = RETRY_DELAY * Math.pow(2, rateLimitRetryCount - 1); // Ensure RETRY_DELAY is defined
-              console.warn(
-                `[Event Service Sync] Rate limited/server error (Status ${status}) on page ${pagesFetched}. Retrying attempt ${rateLimitRetryCount}/${MAX_RETRIES} after ${delay}ms...`
-              );
-              await sleep(delay);
-              pagesFetched--; // Decrement page counter to retry the same page
-            } else {
-              console.error(
-                `[Event Service Sync] Max retries (${MAX_RETRIES}) exceeded for rate limit/server error on page ${pagesFetched}. Stopping sync.`
-              );
-              keepFetching = false; // Stop sync
-            }
-          } else {
-            // Other non-retryable Axios error
-            console.error(
-              `[Event Service Sync] Axios error fetching page ${pagesFetched}: Status ${status || 'N/A'} - ${error.message}`
-            );
-            keepFetching = false; // Stop sync
-          }
-        } else {
-          // Non-Axios error during page fetch
-          console.error(
-            `[Event Service Sync] Non-Axios error fetching page ${pagesFetched}:`,
-            error
+// Trading analytics for an account, aggregated from its stored events
+export const getAccountTradingStats = async (
+  address: string
+): Promise<AccountTradingStats> => {
+  const lowerCaseAddress = address.toLowerCase();
+  try {
+    const [[sales], [holding], [activity]] = await Promise.all([
+      ActivityEventModel.aggregate<{
+        totals: ({ _id: 'buy' | 'sell' } & TradeTotals)[];
+        collections: ({ _id: string } & Omit<
+          CollectionTradeStats,
+          'collection'
+        >)[];
+        monthly: ({ _id: string } & Omit<MonthlyTradeVolume, 'month'>)[];
+      }>(accountSalesPipeline(lowerCaseAddress)),
+      ActivityEventModel.aggregate<{ totalMs: number; count: number }>(
+        accountHoldingPipeline(lowerCaseAddress)
+      ).allowDiskUse(true), // Sorts every sale/transfer of the account
+      ActivityEventModel.aggregate<{
+        count: number;
+        first: number;
+        last: number;
+      }>([
+        { $match: buildAccountEventQuery(lowerCaseAddress, {}) },
+        {
+          $group: {
+            _id: null,
+            count: { $sum: 1 },
+            first: { $min: '$created_date' },
+            last: { $max: '$created_date' },
+          },
+        },
+      ]),
+    ]);
+
+    const totalsFor = (side: 'buy' | 'sell'): TradeTotals => {
+      const row = sales.totals.find((totals) => totals._id === side);
+      return {
+        count: row?.count ?? 0,
+        volumeEth: row?.volumeEth ?? 0,
+        volumeUsd: row?.volumeUsd ?? 0,
+        volumeEur: row?.volumeEur ?? 0,
+        unpricedCount: row?.unpricedCount ?? 0,
+      };
+    };
+
+    return {
+      address: lowerCaseAddress,
+      totalEvents: activity?.count ?? 0,
+      firstActivityAt: activity?.first ?? null,
+      lastActivityAt: activity?.last ?? null,
+      buys: totalsFor('buy'),
+      sells: totalsFor('sell'),
+      averageHoldingTimeMs:
+        holding && holding.count > 0 ? holding.totalMs / holding.count : null,
+      completedHoldCount: holding?.count ?? 0,
+      topCollections: sales.collections.map((row) => ({
+        collection: row._id,
+        buyCount: row.buyCount,
+        sellCount: row.sellCount,
+        volumeEth: row.volumeEth,
+      })),
+      monthlyVolume: sales.monthly.map((row) => ({
+        month: row._id,
+        buyCount: row.buyCount,
+        sellCount: row.sellCount,
+        buyVolumeEth: row.buyVolumeEth,
+        sellVolumeEth: row.sellVolumeEth,
+        volumeUsd: row.volumeUsd,
+      })),
+    };
+  } catch (error) {
+    console.error(
+      `[Event Service] Mongoose error computing trading stats for ${lowerCaseAddress}:`,
+      error
+    );
+    throw new Error('Failed to compute account trading stats.');
+  }
+};
+
+// Counters reported after every stored page of a sync
+export interface EventSyncProgress {
+  pagesFetched: number;
+  eventsUpserted: number;
+}
+
+// Callbacks the sync worker uses to report progress while a sync runs
+export interface EventSyncHooks {
+  // After every page, with the events that page stored for the first time
+  onPage?: (
+    progress: EventSyncProgress,
+    storedEvents: ActivityEvent[]
+  ) => Promise<void>;
+  // Before waiting out a rate limit / server error on a page
+  onRetry?: (retry: {
+    page: number;
+    status: number;
+    retryCount: number;
+    delayMs: number;
+  }) => Promise<void>;
+}
+
+// Where an account's forward sync resumes: the top (ms) of its newest covered
+// range, or null if nothing was synced. Stored events are not used, since
+// collection and token syncs also store events of the account.
+export async function getAccountSyncCursor(
+  address: string
+): Promise<number | null> {
+  const coverage = await EventSyncCoverageModel.findOne({
+    address: address.toLowerCase(),
+  })
+    .select({ ranges: 1 })
+    .lean();
+  const covered = mergeCoveredRanges(coverage?.ranges ?? []);
+  return covered.length > 0 ? covered[covered.length - 1].to : null;
+}
+
+// Query window for one OpenSea events request (API bounds are in seconds)
+interface EventPageParams {
+  next: string | null;
+  occurredAfter: number | null; // ms
+  occurredBefore?: number | null; // ms
+}
+
+// Fetches one page of OpenSea events from `path` (e.g. `/events/accounts/0x..`),
+// waiting out rate limits / server errors in place. Other failures are thrown.
+async function fetchOpenSeaEventsPage(
+  path: string,
+  params: EventPageParams,
+  page: number,
+  hooks: EventSyncHooks
+): Promise<RawOpenSeaApiResponse> {
+  const url = new URL(`${OPENSEA_API_BASE_URL}${path}`);
+  OPENSEA_EVENT_TYPES.forEach((type) =>
+    url.searchParams.append('event_type', type)
+  );
+  url.searchParams.append('limit', String(OPENSEA_LIMIT));
+  if (params.next) {
+    url.searchParams.append('next', params.next);
+  }
+  if (params.occurredAfter) {
+    url.searchParams.append(
+      'occurred_after',
+      String(Math.floor(params.occurredAfter / 1000))
+    );
+  }
+  if (params.occurredBefore) {
+    url.searchParams.append(
+      'occurred_before',
+      String(Math.ceil(params.occurredBefore / 1000))
+    );
+  }
+
+  let rateLimitRetryCount = 0;
+  for (;;) {
+    try {
+      const response = await axios.get<RawOpenSeaApiResponse>(url.toString(), {
+        headers: {
+          accept: 'application/json',
+          'x-api-key': OPENSEA_API_KEY,
+        },
+        timeout: 15000,
+      });
+      return response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error)
+        ? error.response?.status
+        : undefined;
+      if (status === 429 || status === 503 || status === 504) {
+        // Rate limit or server unavailable
+        rateLimitRetryCount++;
+        if (rateLimitRetryCount <= MAX_RETRIES) {
+          const delay = RETRY_DELAY * Math.pow(2, rateLimitRetryCount - 1);
+          console.warn(
+            `[Event Service Sync] Rate limited/server error (Status ${status}) on page ${page}. Retrying attempt ${rateLimitRetryCount}/${MAX_RETRIES} after ${delay}ms...`
           );
-          keepFetching = false; // Stop sync
+          if (hooks.onRetry) {
+            await hooks.onRetry({
+              page,
+              status,
+              retryCount: rateLimitRetryCount,
+              delayMs: delay,
+            });
+          }
+          await sleep(delay);
+          continue;
         }
-      } // End catch block for page fetch error
-    } // End while loop
-    // --- End of Restored Logic ---
+        throw new Error(
+          `OpenSea kept responding with status ${status} on page ${page} after ${MAX_RETRIES} retries.`
+        );
+      }
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `OpenSea request for page ${page} failed: Status ${status || 'N/A'} - ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+// Maps and upserts one page of raw events; returns the events stored for the
+// first time (already known events are only updated)
+async function storeRawEvents(
+  rawEvents: RawOpenSeaEvent[]
+): Promise<ActivityEvent[]> {
+  const mappedEvents = rawEvents
+    .map(mapRawEventToActivityEvent)
+    .filter((e) => e !== null) as ActivityEvent[]; // Filter out nulls
+  if (mappedEvents.length === 0) return [];
+  await priceSaleEvents(mappedEvents);
+
+  // Use Mongoose bulkWrite for efficient upsert
+  const bulkOps = mappedEvents.map((event) => ({
+    updateOne: {
+      filter: {
+        // Define a unique key for upsert
+        transaction: event.transaction,
+        event_type: event.event_type,
+        'nft.identifier': event.nft.identifier,
+      },
+      update: { $set: event },
+      upsert: true,
+    },
+  }));
+
+  const bulkResult = await ActivityEventModel.bulkWrite(
+    bulkOps as any[], // Cast might be needed depending on TS/Mongoose setup
+    { ordered: false } // Unordered is faster, continues on error
+  );
+  console.log(
+    `[Event Service Sync] BulkWrite complete. Mapped: ${mappedEvents.length}/${rawEvents.length}, Upserted: ${bulkResult.upsertedCount}, Matched: ${bulkResult.matchedCount}, Modified: ${bulkResult.modifiedCount}`
+  );
+  // upsertedIds is keyed by the index of the operation that inserted
+  return Object.keys(bulkResult.upsertedIds).map(
+    (index) => mappedEvents[Number(index)]
+  );
+}
+
+// Oldest event timestamp (ms) on a page, or null if none parse
+function oldestEventDate(rawEvents: RawOpenSeaEvent[]): number | null {
+  const dates = rawEvents
+    .map((event) => new Date(event.event_timestamp).getTime())
+    .filter((time) => !isNaN(time));
+  return dates.length > 0 ? Math.min(...dates) : null;
+}
+
+// --- Coverage Tracking ---
+
+// Starts a covered range for a run; it grows backward via extendCoveredRange
+// until finishCoveredRange closes it
+async function startCoveredRange(address: string, to: number): Promise<string> {
+  const runId = new Types.ObjectId().toHexString();
+  await EventSyncCoverageModel.updateOne(
+    { address },
+    {
+      $push: { ranges: { runId, from: to, to, active: true } },
+      $inc: { rangesVersion: 1 },
+    },
+    { upsert: true }
+  );
+  return runId;
+}
+
+// Marks everything from `from` up to the run's `to` as fetched
+async function extendCoveredRange(
+  address: string,
+  runId: string,
+  from: number
+): Promise<void> {
+  await EventSyncCoverageModel.updateOne(
+    { address },
+    { $min: { 'ranges.$[run].from': from }, $inc: { rangesVersion: 1 } },
+    { arrayFilters: [{ 'run.runId': runId }] }
+  );
+}
+
+// Closes a run's range and replaces the closed ranges with their merge, so
+// ranges don't pile up across syncs. If another run wrote in between, the
+// merge is left to the next close.
+async function finishCoveredRange(
+  address: string,
+  runId: string
+): Promise<void> {
+  const coverage = await EventSyncCoverageModel.findOneAndUpdate(
+    { address },
+    {
+      $set: { 'ranges.$[run].active': false },
+      $inc: { rangesVersion: 1 },
+    },
+    { arrayFilters: [{ 'run.runId': runId }], new: true }
+  ).lean();
+  if (!coverage) return;
+
+  const closed = coverage.ranges.filter((range) => !range.active);
+  const merged = mergeCoveredRanges(closed);
+  if (merged.length === closed.length) return; // Nothing to merge or drop
+
+  await EventSyncCoverageModel.updateOne(
+    { address, rangesVersion: coverage.rangesVersion },
+    {
+      $set: {
+        ranges: [
+          ...merged.map((range) => ({
+            runId: new Types.ObjectId().toHexString(),
+            ...range,
+            active: false,
+          })),
+          ...coverage.ranges.filter((range) => range.active),
+        ],
+      },
+      $inc: { rangesVersion: 1 },
+    }
+  );
+}
+
+// Sorts and merges overlapping or touching ranges
+export function mergeCoveredRanges(
+  ranges: Array<{ from: number; to: number }>
+): EventTimeRange[] {
+  const sorted = ranges
+    .filter((range) => range.to > range.from)
+    .map((range) => ({ from: range.from, to: range.to }))
+    .sort((a, b) => a.from - b.from);
+  const merged: EventTimeRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.from <= last.to) {
+      last.to = Math.max(last.to, range.to);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+// Uncovered ranges between the start of history (0) and `now`, newest first
+export function findCoverageGaps(
+  merged: EventTimeRange[],
+  now: number
+): EventTimeRange[] {
+  const gaps: EventTimeRange[] = [];
+  let cursor = 0;
+  for (const range of merged) {
+    if (range.from > cursor) gaps.push({ from: cursor, to: range.from });
+    cursor = Math.max(cursor, range.to);
+  }
+  if (cursor < now) gaps.push({ from: cursor, to: now });
+  return gaps.reverse();
+}
+
+// Gaps the backfill walks: those below the newest covered range, newest
+// first. The gap above it (up to now) belongs to the forward sync; without
+// any coverage the whole history up to now is one gap.
+function findBackfillGaps(merged: EventTimeRange[]): EventTimeRange[] {
+  if (merged.length === 0) return [{ from: 0, to: Date.now() }];
+  return findCoverageGaps(merged, merged[merged.length - 1].to);
+}
+
+// Covered ranges, gaps and backfill checkpoint for an account
+export async function getEventSyncCoverage(
+  address: string
+): Promise<EventSyncCoverageInfo> {
+  const lowerCaseAddress = address.toLowerCase();
+  const coverage = await EventSyncCoverageModel.findOne({
+    address: lowerCaseAddress,
+  }).lean();
+  const covered = mergeCoveredRanges(coverage?.ranges ?? []);
+  const backfill = coverage?.backfill;
+  return {
+    address: lowerCaseAddress,
+    covered,
+    gaps: findCoverageGaps(covered, Date.now()),
+    historyComplete: covered.length > 0 && covered[0].from === 0,
+    backfill: {
+      state: backfill?.state ?? 'idle',
+      gapFrom: backfill?.gapFrom ?? null,
+      gapTo: backfill?.gapTo ?? null,
+      pagesFetched: backfill?.pagesFetched ?? 0,
+      eventsUpserted: backfill?.eventsUpserted ?? 0,
+      lastError: backfill?.lastError ?? null,
+      checkpointAt: backfill?.checkpointAt
+        ? new Date(backfill.checkpointAt).toISOString()
+        : null,
+    },
+  };
+}
+
+// Pages an OpenSea event feed from newest down to `latestKnownDate` (or
+// MAX_PAGES_DEFAULT), upserting every page. `onCovered` receives the lower
+// bound of the window fetched so far; `complete` is false when the page limit
+// stopped the run before it got down to `latestKnownDate`.
+async function runForwardSync(
+  label: string,
+  path: string,
+  latestKnownDate: number | null,
+  hooks: EventSyncHooks,
+  onCovered?: (from: number) => Promise<void>
+): Promise<EventSyncProgress & { complete: boolean }> {
+  if (!OPENSEA_API_KEY) {
+    throw new Error('OPENSEA_API_KEY is missing or empty.');
+  }
+
+  console.log(`[Event Service Sync] Starting sync for ${label}...`);
+
+  let nextCursor: string | null = null;
+  let pagesFetched = 0;
+  let eventsUpserted = 0;
+  let keepFetching = true;
+  const startTime = Date.now();
+  const maxPages = MAX_PAGES_DEFAULT;
 
-    const duration = (Date.now() - startTime) / 1000;
+  if (latestKnownDate) {
     console.log(
-      `[Event Service Sync] Sync finished for ${lowerCaseAddress} in ${duration.toFixed(2)}s. Fetched ${pagesFetched} pages, Processed approx ${totalEventsProcessed} new/updated events.`
+      `[Event Service Sync] Found latest event at timestamp ${latestKnownDate}. Fetching newer events.`
     );
-  } catch (error) {
-    // Catch errors from outside the main loop (e.g., findOne query)
-    console.error(
-      `[Event Service Sync] Unhandled error during sync process for ${lowerCaseAddress}:`,
-      error
+  }
+
+  // *** The Main Fetch Loop ***
+  while (keepFetching && pagesFetched < maxPages) {
+    pagesFetched++;
+    console.log(
+      `[Event Service Sync] Fetching page ${pagesFetched} ${nextCursor ? 'with cursor ' + nextCursor : ''}`
+    );
+
+    const data = await fetchOpenSeaEventsPage(
+      path,
+      { next: nextCursor, occurredAfter: latestKnownDate },
+      pagesFetched,
+      hooks
+    );
+    const rawEvents = data.asset_events || [];
+    nextCursor = data.next || null;
+
+    const storedEvents = await storeRawEvents(rawEvents);
+    eventsUpserted += storedEvents.length;
+
+    // Without a next cursor the whole window down to latestKnownDate is fetched
+    const coveredFrom = nextCursor
+      ? oldestEventDate(rawEvents)
+      : (latestKnownDate ?? 0);
+    if (onCovered && coveredFrom !== null) {
+      await onCovered(coveredFrom);
+    }
+
+    if (hooks.onPage) {
+      await hooks.onPage({ pagesFetched, eventsUpserted }, storedEvents);
+    }
+
+    // Stop if the API has nothing more
+    if (rawEvents.length === 0 || !nextCursor) {
+      console.log(
+        `[Event Service Sync] No more new events or next cursor from API. Ending fetch.`
+      );
+      keepFetching = false;
+    }
+
+    // Add delay between pages if continuing
+    if (keepFetching) {
+      await sleep(INTER_PAGE_DELAY);
+    }
+  }
+
+  const duration = (Date.now() - startTime) / 1000;
+  console.log(
+    `[Event Service Sync] Sync finished for ${label} in ${duration.toFixed(2)}s. Fetched ${pagesFetched} pages, upserted ${eventsUpserted} new events.`
+  );
+  return { pagesFetched, eventsUpserted, complete: !keepFetching };
+}
+
+/**
+ * Fetches an account's OpenSea events newer than `latestKnownDate` and upserts
+ * them into `activityEvents`. Runs inside the event sync worker
+ * (`services/eventSyncService.ts`); throws when OpenSea cannot be read so the
+ * job is retried. The fetched window is recorded as covered, so a sync cut off
+ * by MAX_PAGES_DEFAULT leaves a gap for the backfill to fill.
+ */
+export async function syncAccountEvents(
+  address: string,
+  latestKnownDate: number | null,
+  hooks: EventSyncHooks = {}
+): Promise<EventSyncProgress> {
+  const lowerCaseAddress = address.toLowerCase();
+  const runId = await startCoveredRange(lowerCaseAddress, Date.now());
+  try {
+    return await runForwardSync(
+      lowerCaseAddress,
+      `/events/accounts/${lowerCaseAddress}`,
+      latestKnownDate,
+      hooks,
+      (from) => extendCoveredRange(lowerCaseAddress, runId, from)
     );
   } finally {
-    isSyncing.delete(lowerCaseAddress);
+    // A failed attempt keeps what it covered; the retry starts a new range
+    await finishCoveredRange(lowerCaseAddress, runId);
+  }
+}
+
+// Where a collection's sync resumes (ms), or null if it was never synced.
+// Tracked per collection rather than read from stored events, which account
+// and token syncs also write.
+export async function getCollectionSyncCursor(
+  slug: string
+): Promise<number | null> {
+  const state = await CollectionEventSyncStateModel.findOne({ slug }).lean();
+  return state ? state.syncedUpTo : null;
+}
+
+// Token counterpart of syncAccountEvents, used to fill a provenance request
+// on demand (Ethereum only, like the rest of the event sync)
+export async function syncTokenEvents(
+  contract: string,
+  identifier: string,
+  hooks: EventSyncHooks = {}
+): Promise<EventSyncProgress> {
+  const lowerCaseContract = contract.toLowerCase();
+  return runForwardSync(
+    `token ${lowerCaseContract}:${identifier}`,
+    `/events/chain/ethereum/contract/${lowerCaseContract}/nfts/${encodeURIComponent(identifier)}`,
+    null,
+    hooks
+  );
+}
+
+// Collection counterpart of syncAccountEvents (`/events/collection/{slug}`),
+// storing into the same `activityEvents` collection. The cursor only moves
+// once a run reads the feed down to it; a run cut off by MAX_PAGES_DEFAULT
+// keeps the old cursor, so the next run fetches the rest again.
+export async function syncCollectionEvents(
+  slug: string,
+  latestKnownDate: number | null,
+  hooks: EventSyncHooks = {}
+): Promise<EventSyncProgress> {
+  const startedAt = Date.now();
+  const { complete, ...progress } = await runForwardSync(
+    `collection ${slug}`,
+    `/events/collection/${encodeURIComponent(slug)}`,
+    latestKnownDate,
+    hooks
+  );
+  if (!complete) {
+    console.log(
+      `[Event Service Sync] Collection ${slug} stopped at the page limit; keeping its sync cursor.`
+    );
+    return progress;
+  }
+  await CollectionEventSyncStateModel.updateOne(
+    { slug },
+    { $set: { syncedUpTo: startedAt } },
+    { upsert: true }
+  );
+  return progress;
+}
+
+/**
+ * Walks an account's history backward through the coverage gaps below its
+ * newest covered range (see findBackfillGaps), newest gap first, until none
+ * is left or BACKFILL_MAX_PAGES_PER_RUN is reached (`complete: false`; the
+ * worker then queues the next run). Every
+ * page saves a checkpoint (gap, OpenSea cursor, counters) and extends the
+ * covered range, so a crashed or rate-limited run resumes where it stopped.
+ */
+export async function backfillAccountEvents(
+  address: string,
+  hooks: EventSyncHooks = {}
+): Promise<EventSyncProgress & { complete: boolean }> {
+  const lowerCaseAddress = address.toLowerCase();
+
+  if (!OPENSEA_API_KEY) {
+    throw new Error('OPENSEA_API_KEY is missing or empty.');
+  }
+
+  const coverage = await EventSyncCoverageModel.findOneAndUpdate(
+    { address: lowerCaseAddress },
+    { $set: { 'backfill.state': 'running', 'backfill.lastError': null } },
+    { upsert: true, new: true }
+  ).lean();
+  const checkpoint = coverage.backfill;
+
+  // Resume the interrupted gap walk, if any
+  let runId: string | null = checkpoint.cursor ? checkpoint.runId : null;
+  let gapFrom: number | null = runId ? checkpoint.gapFrom : null;
+  let gapTo: number | null = runId ? checkpoint.gapTo : null;
+  let nextCursor: string | null = runId ? checkpoint.cursor : null;
+  let pagesFetched = runId ? checkpoint.pagesFetched : 0;
+  let eventsUpserted = runId ? checkpoint.eventsUpserted : 0;
+  let pagesThisRun = 0;
+
+  if (runId) {
     console.log(
-      `[Event Service Sync] Released sync lock for ${lowerCaseAddress}.`
+      `[Event Backfill] Resuming ${lowerCaseAddress} in gap ${gapFrom}-${gapTo} from checkpoint.`
+    );
+  }
+
+  while (pagesThisRun < BACKFILL_MAX_PAGES_PER_RUN) {
+    if (!runId || gapFrom === null || gapTo === null) {
+      const current = await EventSyncCoverageModel.findOne({
+        address: lowerCaseAddress,
+      }).lean();
+      const gap = findBackfillGaps(
+        mergeCoveredRanges(current?.ranges ?? [])
+      )[0];
+      if (!gap) {
+        await EventSyncCoverageModel.updateOne(
+          { address: lowerCaseAddress },
+          {
+            $set: {
+              'backfill.state': 'completed',
+              'backfill.runId': null,
+              'backfill.gapFrom': null,
+              'backfill.gapTo': null,
+              'backfill.cursor': null,
+              'backfill.checkpointAt': new Date(),
+            },
+          }
+        );
+        console.log(
+          `[Event Backfill] History of ${lowerCaseAddress} fully covered after ${pagesFetched} pages.`
+        );
+        return { pagesFetched, eventsUpserted, complete: true };
+      }
+      gapFrom = gap.from;
+      gapTo = gap.to;
+      nextCursor = null;
+      runId = await startCoveredRange(lowerCaseAddress, gapTo);
+      console.log(
+        `[Event Backfill] Filling gap ${gapFrom}-${gapTo} for ${lowerCaseAddress}.`
+      );
+    }
+
+    pagesThisRun++;
+    pagesFetched++;
+    let data: RawOpenSeaApiResponse;
+    try {
+      data = await fetchOpenSeaEventsPage(
+        `/events/accounts/${lowerCaseAddress}`,
+        { next: nextCursor, occurredAfter: gapFrom, occurredBefore: gapTo },
+        pagesFetched,
+        hooks
+      );
+    } catch (error) {
+      const expiredCursor = pagesThisRun === 1 && nextCursor !== null;
+      if (expiredCursor) {
+        // The saved cursor may have expired: the retry restarts from the
+        // coverage instead, which already includes every checkpointed page
+        await EventSyncCoverageModel.updateOne(
+          { address: lowerCaseAddress },
+          { $set: { 'backfill.cursor': null, 'backfill.runId': null } }
+        );
+      }
+      if (expiredCursor || !nextCursor) {
+        // No checkpoint resumes this range (a gap's first page failed, or
+        // the cursor was dropped), so close it rather than leave it active
+        await finishCoveredRange(lowerCaseAddress, runId);
+      }
+      throw error;
+    }
+    const rawEvents = data.asset_events || [];
+    nextCursor = rawEvents.length > 0 ? data.next || null : null;
+
+    const storedEvents = await storeRawEvents(rawEvents);
+    eventsUpserted += storedEvents.length;
+
+    // The last page of a gap covers it down to its lower bound
+    const coveredFrom = nextCursor ? oldestEventDate(rawEvents) : gapFrom;
+    if (coveredFrom !== null) {
+      await extendCoveredRange(lowerCaseAddress, runId, coveredFrom);
+    }
+
+    await EventSyncCoverageModel.updateOne(
+      { address: lowerCaseAddress },
+      {
+        $set: {
+          'backfill.runId': nextCursor ? runId : null,
+          'backfill.gapFrom': nextCursor ? gapFrom : null,
+          'backfill.gapTo': nextCursor ? gapTo : null,
+          'backfill.cursor': nextCursor,
+          'backfill.pagesFetched': pagesFetched,
+          'backfill.eventsUpserted': eventsUpserted,
+          'backfill.checkpointAt': new Date(),
+        },
+      }
     );
+
+    if (hooks.onPage) {
+      await hooks.onPage({ pagesFetched, eventsUpserted }, storedEvents);
+    }
+
+    if (!nextCursor) {
+      await finishCoveredRange(lowerCaseAddress, runId);
+      runId = null; // Gap closed; pick the next one
+    }
+    await sleep(INTER_PAGE_DELAY);
   }
+
+  // Page budget used up: the checkpoint lets the next run, which the worker
+  // queues once this one completes, continue
+  await EventSyncCoverageModel.updateOne(
+    { address: lowerCaseAddress },
+    { $set: { 'backfill.state': 'idle' } }
+  );
+  console.log(
+    `[Event Backfill] Paused ${lowerCaseAddress} after ${pagesThisRun} pages; will resume from checkpoint.`
+  );
+  return { pagesFetched, eventsUpserted, complete: false };
+}
+
+// Records a failed backfill attempt; the checkpoint is kept for the retry
+export async function recordBackfillError(
+  address: string,
+  message: string,
+  isFinal: boolean
+): Promise<void> {
+  await EventSyncCoverageModel.updateOne(
+    { address: address.toLowerCase() },
+    {
+      $set: {
+        'backfill.lastError': message,
+        ...(isFinal && { 'backfill.state': 'failed' }),
+      },
+    }
+  );
 }
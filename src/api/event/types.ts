@@ -47,6 +47,13 @@ export interface RawOpenSeaEvent {
   quantity?: string;
 }
 
+// Sale payment valued on the UTC day of the sale (set when the event is stored)
+export interface SalePrice {
+  eth: number | null; // Payment normalised to ETH; null if the token is unpriced
+  usd: number | null;
+  eur: number | null;
+}
+
 export interface ActivityEvent {
   event_type: string;
   created_date: number;
@@ -78,6 +85,130 @@ export interface ActivityEvent {
     };
   };
   quantity: number;
+  price?: SalePrice; // Sales only
+}
+
+// Optional filters for stored account activity (all combined with AND)
+export interface AccountEventFilters {
+  eventTypes?: string[]; // e.g. ['sale', 'transfer']
+  collection?: string; // Collection slug
+  contract?: string; // Lowercase contract address
+  direction?: 'in' | 'out'; // Received by / sent from the account
+  from?: number; // created_date lower bound (ms, inclusive)
+  to?: number; // created_date upper bound (ms, inclusive)
+}
+
+// Position after the last returned event in (created_date, _id) order
+export interface EventCursor {
+  createdDate: number;
+  id: string; // ObjectId hex string
+}
+
+// Time range in ms (inclusive bounds)
+export interface EventTimeRange {
+  from: number;
+  to: number;
+}
+
+// Stored part of an account's event history and the backfill state
+export interface EventSyncCoverageInfo {
+  address: string;
+  covered: EventTimeRange[]; // Merged, oldest first
+  gaps: EventTimeRange[]; // Not yet fetched, newest first (0 = start of history)
+  historyComplete: boolean; // Covered back to the first event
+  backfill: {
+    state: 'idle' | 'running' | 'completed' | 'failed';
+    gapFrom: number | null; // Gap being walked when interrupted
+    gapTo: number | null;
+    pagesFetched: number;
+    eventsUpserted: number;
+    lastError: string | null;
+    checkpointAt: string | null; // ISO date
+  };
+}
+
+// One owner's stretch of holding a token
+export interface TokenHoldingPeriod {
+  owner: string;
+  from: number; // ms
+  to: number | null; // null while still held
+  durationMs: number; // Up to now while still held
+  acquiredVia: 'mint' | 'sale' | 'transfer';
+  acquiredTransaction: string;
+  acquiredPriceEth: number | null; // ETH/WETH sales only
+  exitVia: 'sale' | 'transfer' | 'burn' | null;
+  exitTransaction: string | null;
+  exitPriceEth: number | null;
+}
+
+// One sale on a token's price path
+export interface TokenSalePoint {
+  timestamp: number; // ms
+  transaction: string;
+  seller: string;
+  buyer: string;
+  amount: number; // payment.quantity scaled by its decimals
+  symbol: string;
+  priceEth: number | null; // Normalised to ETH; null if the token is unpriced
+  priceUsd: number | null; // On the day of the sale
+  priceEur: number | null;
+  changePercent: number | null; // vs the previous sale priced in ETH
+}
+
+// Ownership and sale history of a single token
+export interface TokenProvenance {
+  contract: string;
+  identifier: string;
+  name: string | null;
+  collection: string | null;
+  image_url: string | null;
+  currentOwners: string[]; // Several for ERC-1155 tokens
+  ownershipChanges: number; // Transactions that moved the token (sales included)
+  saleCount: number;
+  holdingPeriods: TokenHoldingPeriod[]; // Oldest first
+  pricePath: TokenSalePoint[]; // Oldest first
+  events: ActivityEvent[]; // Oldest first
+}
+
+// Sales on one side of an account's trades (volumes sum the priced sales)
+export interface TradeTotals {
+  count: number;
+  volumeEth: number;
+  volumeUsd: number;
+  volumeEur: number;
+  unpricedCount: number; // Sales without an ETH value (unknown token/day)
+}
+
+// Trades in one collection, by combined buy and sell count
+export interface CollectionTradeStats {
+  collection: string;
+  buyCount: number;
+  sellCount: number;
+  volumeEth: number;
+}
+
+// Sale volume in one calendar month (UTC)
+export interface MonthlyTradeVolume {
+  month: string; // YYYY-MM
+  buyCount: number;
+  sellCount: number;
+  buyVolumeEth: number;
+  sellVolumeEth: number;
+  volumeUsd: number;
+}
+
+// Trading analytics computed from an account's stored sales and transfers
+export interface AccountTradingStats {
+  address: string;
+  totalEvents: number;
+  firstActivityAt: number | null; // ms
+  lastActivityAt: number | null; // ms
+  buys: TradeTotals;
+  sells: TradeTotals;
+  averageHoldingTimeMs: number | null; // Over tokens received and sent on
+  completedHoldCount: number;
+  topCollections: CollectionTradeStats[];
+  monthlyVolume: MonthlyTradeVolume[]; // Oldest first
 }
 
 export interface ProgressStreamMessage {
@@ -123,3 +254,24 @@ export type StreamMessage =
   | ChunkStreamMessage
   | CompleteStreamMessage
   | ErrorStreamMessage;
+
+// Lifecycle of an address' event sync job ('idle' when none was queued)
+export type EventSyncState =
+  | 'idle'
+  | 'queued'
+  | 'syncing'
+  | 'retrying'
+  | 'completed'
+  | 'failed';
+
+// Sync status persisted in Redis by the event sync worker
+export interface EventSyncStatus {
+  state: EventSyncState;
+  pagesFetched: number; // Across all attempts of the current job
+  eventsUpserted: number; // Newly stored events across all attempts
+  attempts: number;
+  lastError: string | null;
+  queuedAt: string | null; // ISO date strings
+  startedAt: string | null;
+  finishedAt: string | null;
+}
@@ -18,15 +18,122 @@ interface OpenSeaNftResponse {
   next: string | null;
 }
 
+// OpenSea NFT plus the number of copies the account holds (ERC-1155 balances)
+export interface AccountNft extends OpenSeaNft {
+  quantity: number;
+}
+
 interface FetchNftResult {
-  nfts: OpenSeaNft[];
+  nfts: AccountNft[];
   nextCursor: string | null;
 }
 
+// Subset of Alchemy's getNFTsForOwner response used for ERC-1155 balances
+interface AlchemyOwnedNftsResponse {
+  ownedNfts: Array<{
+    contract: { address: string };
+    tokenId: string;
+    balance: string;
+  }>;
+  pageKey?: string;
+}
+
 const OPENSEA_PAGE_LIMIT = 200;
 const NFT_CACHE_PREFIX = 'nft_page:'; // Prefix for NFT page cache keys
 const NFT_CACHE_TTL_SECONDS = 5 * 60; // Cache for 5 minutes
 
+const ALCHEMY_NFT_API_BASE = 'https://eth-mainnet.g.alchemy.com/nft/v3';
+const ALCHEMY_MAX_CONTRACTS_PER_REQUEST = 45; // Alchemy's contractAddresses[] limit
+const ALCHEMY_MAX_BALANCE_PAGES = 20; // Safety break for balance pagination
+
+// Fetches ERC-1155 balances for the given contracts, keyed by `contract:tokenId`
+async function fetchErc1155Balances(
+  address: string,
+  contracts: string[]
+): Promise<Map<string, number>> {
+  const balances = new Map<string, number>();
+  const apiKey = env.ALCHEMY_API_KEY;
+  if (!apiKey) {
+    console.warn(
+      '[NFT Balance] ALCHEMY_API_KEY is not set. Assuming a quantity of 1 for ERC-1155 tokens.'
+    );
+    return balances;
+  }
+
+  for (
+    let i = 0;
+    i < contracts.length;
+    i += ALCHEMY_MAX_CONTRACTS_PER_REQUEST
+  ) {
+    const contractBatch = contracts.slice(
+      i,
+      i + ALCHEMY_MAX_CONTRACTS_PER_REQUEST
+    );
+    let pageKey: string | undefined;
+    let page = 0;
+    do {
+      const url = new URL(`${ALCHEMY_NFT_API_BASE}/${apiKey}/getNFTsForOwner`);
+      url.searchParams.append('owner', address);
+      url.searchParams.append('withMetadata', 'false');
+      url.searchParams.append('pageSize', '100');
+      contractBatch.forEach((contract) =>
+        url.searchParams.append('contractAddresses[]', contract)
+      );
+      if (pageKey) url.searchParams.append('pageKey', pageKey);
+
+      const response = await axios.get<AlchemyOwnedNftsResponse>(
+        url.toString(),
+        { headers: { accept: 'application/json' }, timeout: 20000 }
+      );
+      (response.data.ownedNfts || []).forEach((owned) => {
+        const balance = parseInt(owned.balance, 10);
+        balances.set(
+          `${owned.contract.address.toLowerCase()}:${owned.tokenId}`,
+          isNaN(balance) || balance < 1 ? 1 : balance
+        );
+      });
+      pageKey = response.data.pageKey;
+      page++;
+    } while (pageKey && page < ALCHEMY_MAX_BALANCE_PAGES);
+  }
+
+  return balances;
+}
+
+// Adds held quantities: 1 for ERC-721, on-chain balance for ERC-1155
+async function attachTokenQuantities(
+  address: string,
+  nfts: OpenSeaNft[]
+): Promise<AccountNft[]> {
+  const erc1155Contracts = Array.from(
+    new Set(
+      nfts
+        .filter((nft) => nft.token_standard?.toLowerCase() === 'erc1155')
+        .map((nft) => nft.contract.toLowerCase())
+    )
+  );
+  if (erc1155Contracts.length === 0) {
+    return nfts.map((nft) => ({ ...nft, quantity: 1 }));
+  }
+
+  let balances = new Map<string, number>();
+  try {
+    balances = await fetchErc1155Balances(address, erc1155Contracts);
+  } catch (error) {
+    // Don't fail the page over balances; undercounting is the old behaviour
+    console.error(
+      `[NFT Balance] Failed to fetch ERC-1155 balances for ${address}. Assuming a quantity of 1.`,
+      error instanceof Error ? error.message : error
+    );
+  }
+
+  return nfts.map((nft) => ({
+    ...nft,
+    quantity:
+      balances.get(`${nft.contract.toLowerCase()}:${nft.identifier}`) ?? 1,
+  }));
+}
+
 export const getNftsByAccount = async (
   address: string,
   nextCursor: string | null = null
@@ -97,7 +204,7 @@ export const getNftsByAccount = async (
     });
 
     const data = response.data;
-    const fetchedNfts = data.nfts || [];
+    const fetchedNfts = await attachTokenQuantities(address, data.nfts || []);
     const next = data.next || null;
 
     const result: FetchNftResult = {
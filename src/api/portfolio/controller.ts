@@ -1,11 +1,58 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ethers } from 'ethers';
 import redisClient from '../../lib/redis';
-import { PortfolioSummaryData } from './types';
+import {
+  PortfolioSummaryData,
+  PortfolioHistoryInterval,
+  PortfolioHistoryResponse,
+  PnlMethod,
+  PortfolioPnlResponse,
+  PortfolioBundleRequestBody,
+  PortfolioBundleWalletStatus,
+  PortfolioExportFormat,
+  PortfolioCollectionFilter,
+  PortfolioHiddenCollectionsBody,
+  PortfolioWatchRequestBody,
+  PortfolioWebhookCreateBody,
+  PortfolioWebhookDeliveryInfo,
+  PortfolioValuationMode,
+} from './types';
 import {
   addPortfolioJob,
   getPortfolioJob,
+  subscribeToPortfolioJob,
+  scheduleWatchedWallet,
+  unscheduleWatchedWallet,
+  getWatchedWalletNextRun,
 } from '../../services/portfolioCalculatorService';
+import {
+  getPortfolioHistory,
+  getCachedPortfolioSummary,
+  getStalePortfolioSummary,
+  calculatePortfolioPnl,
+  mergePortfolioSummaries,
+  BundleMemberSummary,
+  buildPortfolioExport,
+  portfolioExportToCsv,
+  convertPortfolioSummary,
+  filterPortfolioSummary,
+  getHiddenCollections,
+  hidePortfolioCollections,
+  unhidePortfolioCollection,
+  listWatchedWallets,
+  saveWatchedWallet,
+  deleteWatchedWallet,
+  WATCH_SCHEDULE_INTERVALS_MS,
+  createPortfolioWebhook,
+  listPortfolioWebhooks,
+  deletePortfolioWebhook,
+  getWebhookDeliveries,
+  applyLiquidityAdjustment,
+  getPortfolioDiff,
+} from './service';
+import { resolveEnsName } from '../ens/service';
+import { FiatCurrency } from '../../services/priceFetcher';
+import { checkWebhookUrl } from '../../utils/webhookUrl';
 
 // Define cache constants
 const CACHE_PREFIX_PORTFOLIO = 'portfolio:summary:';
@@ -16,14 +63,222 @@ interface PortfolioParams {
   address: string;
 }
 
+interface SummaryQuery {
+  currency?: FiatCurrency;
+  filter?: PortfolioCollectionFilter;
+  valuation?: PortfolioValuationMode;
+}
+
+interface WebhookParams {
+  id: string;
+}
+
+interface WebhookListQuery {
+  address: string;
+}
+
+interface WebhookDeliveriesQuery {
+  status?: PortfolioWebhookDeliveryInfo['status'];
+}
+
+interface HiddenCollectionParams extends PortfolioParams {
+  slug: string;
+}
+
+interface HistoryQuery {
+  from?: string;
+  to?: string;
+  interval?: PortfolioHistoryInterval;
+}
+
+interface DiffQuery {
+  from?: string;
+  to?: string;
+}
+
+interface PnlQuery {
+  method?: PnlMethod;
+}
+
+interface ExportQuery {
+  format?: PortfolioExportFormat;
+  currency?: FiatCurrency;
+}
+
+const REFRESH_COOLDOWN_PREFIX = 'portfolio:refresh:cooldown:';
+const REFRESH_COOLDOWN_SECONDS = 5 * 60; // One forced refresh per address every 5 minutes
+
+const SSE_KEEP_ALIVE_MS = 15 * 1000; // Comment ping so proxies don't drop idle streams
+
+const DEFAULT_HISTORY_RANGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const DEFAULT_DIFF_RANGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days (weekly recap)
+
+// Accepts either an ISO date string or a Unix timestamp in milliseconds
+function parseDateParam(value: string | undefined): Date | null {
+  if (value === undefined || value === '') return null;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
 // Define a simple initial progress structure
 const initialProgress = {
   step: 'Queued',
   message: 'Calculation queued...',
 };
 
+// Result of making sure a calculation is running for an address
+interface PendingCalculation {
+  message: string;
+  progress: unknown;
+}
+
+// Reports the job already running for the address, or queues a new one.
+// Returns null when the queue is unavailable; queue errors are thrown.
+async function ensurePortfolioCalculation(
+  request: FastifyRequest,
+  normalizedAddress: string
+): Promise<PendingCalculation | null> {
+  // 2. Cache Miss: Check for Existing Job & Get Progress
+  const jobInfo = await getPortfolioJob(normalizedAddress);
+
+  if (
+    jobInfo &&
+    (jobInfo.status === 'active' ||
+      jobInfo.status === 'waiting' ||
+      jobInfo.status === 'delayed')
+  ) {
+    // Job is running or queued - report LIVE progress
+    request.log.info(
+      `[Portfolio API] Job found for ${normalizedAddress}. Status: ${jobInfo.status}, Progress:`,
+      jobInfo.progress
+    );
+    return {
+      message: `Portfolio summary calculation is ${jobInfo.status}.`,
+      progress: jobInfo.progress || initialProgress, // Send actual progress, or initial if null
+    };
+  }
+
+  // 3. No Active Job Found or Job Completed/Failed: Trigger New Calculation
+  request.log.info(
+    `[Portfolio API] No active job found or cache miss persists for ${normalizedAddress}. Triggering calculation.`
+  );
+
+  const addedJob = await addPortfolioJob({ address: normalizedAddress });
+  if (!addedJob) {
+    request.log.warn(
+      `[Portfolio API] Failed to trigger background job for: ${normalizedAddress}. Queue might be unavailable.`
+    );
+    return null;
+  }
+  request.log.info(
+    `[Portfolio API] Triggered/confirmed background job for: ${normalizedAddress} (Job ID: ${addedJob.id})`
+  );
+  return {
+    message: 'Portfolio summary calculation has been queued.',
+    progress: initialProgress,
+  };
+}
+
+// Shared cache-miss path: returns 202 with live progress if a job is already
+// running for the address, otherwise queues a calculation and returns 202.
+async function sendCalculationPending(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  normalizedAddress: string
+) {
+  let pending: PendingCalculation | null;
+  try {
+    pending = await ensurePortfolioCalculation(request, normalizedAddress);
+  } catch (queueError) {
+    request.log.error(
+      `[Portfolio API Queue Error] Error interacting with queue for ${normalizedAddress}:`,
+      queueError
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Error initiating portfolio calculation.',
+    });
+  }
+
+  if (!pending) {
+    return reply.code(503).send({
+      status: 'error',
+      data: null,
+      message:
+        'Calculation service is currently unavailable. Please try again later.',
+    });
+  }
+
+  return reply.code(202).send({
+    status: 'calculating',
+    data: null,
+    message: pending.message,
+    progress: pending.progress,
+  });
+}
+
+// Read-time options of the summary endpoint: safelist filter, valuation
+// mode, then currency (so adjusted values are converted too)
+async function applySummaryQuery(
+  data: PortfolioSummaryData,
+  query: SummaryQuery
+): Promise<PortfolioSummaryData> {
+  const filtered = query.filter
+    ? filterPortfolioSummary(data, query.filter)
+    : data;
+  const valued =
+    query.valuation === 'liquidity_adjusted'
+      ? await applyLiquidityAdjustment(filtered)
+      : filtered;
+  return query.currency
+    ? convertPortfolioSummary(valued, query.currency)
+    : valued;
+}
+
+// Serves the last known summary (marked stale) while a recalculation runs.
+// Returns null when there is nothing to serve.
+async function sendStaleSummary(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  normalizedAddress: string,
+  query: SummaryQuery
+) {
+  const staleData = await getStalePortfolioSummary(normalizedAddress);
+  if (!staleData) return null;
+
+  let pending: PendingCalculation | null = null;
+  try {
+    pending = await ensurePortfolioCalculation(request, normalizedAddress);
+  } catch (queueError) {
+    // The stale data is still useful, so report the queue problem only in logs
+    request.log.error(
+      `[Portfolio API Queue Error] Error interacting with queue for ${normalizedAddress}:`,
+      queueError
+    );
+  }
+
+  const ageSeconds = Math.max(
+    0,
+    Math.floor((Date.now() - new Date(staleData.calculatedAt).getTime()) / 1000)
+  );
+  request.log.info(
+    `[Portfolio API Cache STALE] Serving ${ageSeconds}s old summary for ${normalizedAddress} while recalculating.`
+  );
+  return reply.send({
+    status: 'ready',
+    data: await applySummaryQuery(staleData, query),
+    stale: true,
+    ageSeconds,
+    progress: pending?.progress ?? null,
+  });
+}
+
 export async function getPortfolioSummaryController(
-  request: FastifyRequest<{ Params: PortfolioParams }>,
+  request: FastifyRequest<{
+    Params: PortfolioParams;
+    Querystring: SummaryQuery;
+  }>,
   reply: FastifyReply
 ) {
   const { address } = request.params;
@@ -46,8 +301,9 @@ export async function getPortfolioSummaryController(
       request.log.info(
         `[Portfolio API Cache HIT] Found raw data for address: ${address}`
       );
+      let parsedData: PortfolioSummaryData | null = null;
       try {
-        const parsedData: PortfolioSummaryData = JSON.parse(cachedData);
+        parsedData = JSON.parse(cachedData) as PortfolioSummaryData;
         // Log the parsed data before sending
         request.log.info({
           msg: `[Portfolio API Cache HIT] Parsed data successfully for ${address}. Returning status: ready.`,
@@ -59,7 +315,6 @@ export async function getPortfolioSummaryController(
             calculatedAt: parsedData.calculatedAt,
           },
         });
-        return reply.send({ status: 'ready', data: parsedData });
       } catch (parseError) {
         request.log.error(
           `[Portfolio API Cache WARN] Failed to parse cached data for ${address}. Data was: ${cachedData}`,
@@ -67,6 +322,12 @@ export async function getPortfolioSummaryController(
         );
         // Proceed as if cache miss if parsing fails
       }
+      if (parsedData) {
+        return reply.send({
+          status: 'ready',
+          data: await applySummaryQuery(parsedData, request.query),
+        });
+      }
     }
 
     // Log cache miss
@@ -74,78 +335,965 @@ export async function getPortfolioSummaryController(
       `[Portfolio API Cache MISS] No data found in Redis for key: ${cacheKey}`
     );
 
-    // 2. Cache Miss: Check for Existing Job & Get Progress
-    const jobInfo = await getPortfolioJob(normalizedAddress);
-
-    if (
-      jobInfo &&
-      (jobInfo.status === 'active' ||
-        jobInfo.status === 'waiting' ||
-        jobInfo.status === 'delayed')
-    ) {
-      // Job is running or queued - return 202 with LIVE progress
-      request.log.info(
-        `[Portfolio API] Job found for ${normalizedAddress}. Status: ${jobInfo.status}, Progress:`,
-        jobInfo.progress
-      );
-      return reply.code(202).send({
-        status: 'calculating',
-        data: null,
-        message: `Portfolio summary calculation is ${jobInfo.status}.`,
-        progress: jobInfo.progress || initialProgress, // Send actual progress, or initial if null
-      });
-    }
+    // Stale-while-revalidate: serve the last known summary if there is one
+    const staleReply = await sendStaleSummary(
+      request,
+      reply,
+      normalizedAddress,
+      request.query
+    );
+    if (staleReply) return staleReply;
 
-    // 3. No Active Job Found or Job Completed/Failed: Trigger New Calculation
-    request.log.info(
-      `[Portfolio API] No active job found or cache miss persists for ${normalizedAddress}. Triggering calculation.`
+    // 2./3. Cache Miss: report the running job or queue a new calculation
+    return await sendCalculationPending(request, reply, normalizedAddress);
+  } catch (error) {
+    request.log.error(
+      `[Portfolio API Error] Unexpected error in controller for ${normalizedAddress}:`,
+      error
     );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error processing portfolio request.',
+    });
+  }
+}
 
-    try {
-      const addedJob = await addPortfolioJob({ address: normalizedAddress });
-      if (addedJob) {
-        request.log.info(
-          `[Portfolio API] Triggered/confirmed background job for: ${normalizedAddress} (Job ID: ${addedJob.id})`
-        );
-      } else {
-        request.log.warn(
-          `[Portfolio API] Failed to trigger background job for: ${normalizedAddress}. Queue might be unavailable.`
-        );
-        return reply.code(503).send({
+// Controller for forced recalculation (POST /summary/:address/refresh)
+// Queues a job even when the cache is warm; the cached summary keeps being
+// served until the new one replaces it. Limited to one refresh per cooldown.
+export async function refreshPortfolioSummaryController(
+  request: FastifyRequest<{ Params: PortfolioParams }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+  const cooldownKey = `${REFRESH_COOLDOWN_PREFIX}${normalizedAddress}`;
+
+  try {
+    // NX: only the first refresh inside the window claims the key
+    const claimed = await redisClient.set(
+      cooldownKey,
+      new Date().toISOString(),
+      'EX',
+      REFRESH_COOLDOWN_SECONDS,
+      'NX'
+    );
+    if (!claimed) {
+      const ttl = await redisClient.ttl(cooldownKey);
+      const retryAfterSeconds = ttl > 0 ? ttl : REFRESH_COOLDOWN_SECONDS;
+      request.log.info(
+        `[Portfolio API] Refresh for ${normalizedAddress} rejected, cooldown active for ${retryAfterSeconds}s.`
+      );
+      return reply
+        .code(429)
+        .header('Retry-After', String(retryAfterSeconds))
+        .send({
           status: 'error',
           data: null,
-          message:
-            'Calculation service is currently unavailable. Please try again later.',
+          message: `Portfolio was refreshed recently. Try again in ${retryAfterSeconds} seconds.`,
         });
-      }
+    }
+
+    let pending: PendingCalculation | null;
+    try {
+      pending = await ensurePortfolioCalculation(request, normalizedAddress);
     } catch (queueError) {
       request.log.error(
         `[Portfolio API Queue Error] Error interacting with queue for ${normalizedAddress}:`,
         queueError
       );
-      return reply.code(500).send({
+      pending = null;
+    }
+
+    if (!pending) {
+      // Nothing was queued, so don't make the caller wait out the cooldown
+      await redisClient.del(cooldownKey);
+      return reply.code(503).send({
         status: 'error',
         data: null,
-        message: 'Error initiating portfolio calculation.',
+        message:
+          'Calculation service is currently unavailable. Please try again later.',
       });
     }
 
-    // Return initial "calculating" status after triggering
     return reply.code(202).send({
       status: 'calculating',
       data: null,
-      message: 'Portfolio summary calculation has been queued.',
-      progress: initialProgress,
+      message: pending.message,
+      progress: pending.progress,
     });
   } catch (error) {
     request.log.error(
-      `[Portfolio API Error] Unexpected error in controller for ${normalizedAddress}:`,
+      `[Portfolio API Error] Failed to refresh portfolio for ${normalizedAddress}:`,
       error
     );
     return reply.code(500).send({
       status: 'error',
       data: null,
-      message: 'Internal Server Error processing portfolio request.',
+      message: 'Internal Server Error refreshing portfolio.',
+    });
+  }
+}
+
+// Controller for live progress (GET /summary/:address/stream)
+// Emits `progress` events with the worker's job.updateProgress payloads, then a
+// final `summary` event with the finished PortfolioSummaryData (or `failed`).
+export async function getPortfolioSummaryStreamController(
+  request: FastifyRequest<{ Params: PortfolioParams }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  let closed = false;
+  let keepAlive: NodeJS.Timeout | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const closeStream = () => {
+    if (closed) return;
+    closed = true;
+    if (keepAlive) clearInterval(keepAlive);
+    if (unsubscribe) unsubscribe();
+    reply.sseContext?.source.end();
+  };
+
+  const sendEvent = (event: string, payload: unknown) => {
+    if (closed) return;
+    reply.sse({ event, data: JSON.stringify(payload) });
+  };
+
+  const sendSummaryAndClose = async () => {
+    const summary = await getCachedPortfolioSummary(normalizedAddress);
+    if (summary) {
+      sendEvent('summary', { status: 'ready', data: summary });
+    } else {
+      sendEvent('failed', {
+        status: 'error',
+        message: 'Calculation finished but no summary was found.',
+      });
+    }
+    closeStream();
+  };
+
+  try {
+    // Subscribe before queuing so no progress update is missed
+    unsubscribe = subscribeToPortfolioJob(normalizedAddress, {
+      onProgress: (progress) => sendEvent('progress', progress),
+      onCompleted: () => {
+        sendSummaryAndClose().catch((err) => {
+          request.log.error(
+            { err, address: normalizedAddress },
+            '[Portfolio Stream] Failed to send final summary'
+          );
+          closeStream();
+        });
+      },
+      onFailed: (reason) => {
+        sendEvent('failed', { status: 'error', message: `Failed: ${reason}` });
+        closeStream();
+      },
+    });
+    request.raw.on('close', closeStream);
+
+    const jobInfo = await getPortfolioJob(normalizedAddress);
+    const isJobRunning =
+      jobInfo !== null &&
+      ['active', 'waiting', 'delayed'].includes(jobInfo.status);
+
+    // A fresh summary with nothing running: send it as the only event
+    if (!isJobRunning) {
+      const cachedSummary = await getCachedPortfolioSummary(normalizedAddress);
+      if (cachedSummary) {
+        sendEvent('summary', { status: 'ready', data: cachedSummary });
+        closeStream();
+        return reply;
+      }
+    }
+
+    if (isJobRunning) {
+      sendEvent('progress', jobInfo.progress || initialProgress);
+    } else {
+      const addedJob = await addPortfolioJob({ address: normalizedAddress });
+      if (!addedJob) {
+        sendEvent('failed', {
+          status: 'error',
+          message:
+            'Calculation service is currently unavailable. Please try again later.',
+        });
+        closeStream();
+        return reply;
+      }
+      sendEvent('progress', initialProgress);
+    }
+
+    keepAlive = setInterval(() => {
+      if (!closed) reply.sse({ comment: 'keep-alive' });
+    }, SSE_KEEP_ALIVE_MS);
+
+    // The job may have finished (or was left failed) before the subscription
+    // saw it: its queue event is gone, so close the stream from its state
+    const latestJobInfo = await getPortfolioJob(normalizedAddress);
+    if (latestJobInfo?.status === 'completed') {
+      await sendSummaryAndClose();
+    } else if (latestJobInfo?.status === 'failed') {
+      sendEvent('failed', {
+        status: 'error',
+        message: `Failed: ${latestJobInfo.failedReason ?? 'Unknown error'}`,
+      });
+      closeStream();
+    }
+    return reply;
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio Stream Error] Unexpected error for ${normalizedAddress}`
+    );
+    sendEvent('failed', {
+      status: 'error',
+      message: 'Internal Server Error processing portfolio stream.',
+    });
+    closeStream();
+    return reply;
+  }
+}
+
+// Controller for value history (GET /history/:address)
+export async function getPortfolioHistoryController(
+  request: FastifyRequest<{
+    Params: PortfolioParams;
+    Querystring: HistoryQuery;
+  }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+  const { from: fromQuery, to: toQuery, interval = 'day' } = request.query;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  const to = toQuery ? parseDateParam(toQuery) : new Date();
+  const from = fromQuery
+    ? parseDateParam(fromQuery)
+    : to
+      ? new Date(to.getTime() - DEFAULT_HISTORY_RANGE_MS)
+      : null;
+
+  if (!from || !to || from > to) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message:
+        'Invalid date range. Use ISO dates or millisecond timestamps with from <= to.',
+    });
+  }
+
+  try {
+    const points = await getPortfolioHistory(
+      normalizedAddress,
+      from,
+      to,
+      interval
+    );
+    const data: PortfolioHistoryResponse = {
+      address: normalizedAddress,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      interval,
+      points,
+    };
+    return reply.send({ status: 'ready', data });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to fetch history for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error retrieving portfolio history.',
+    });
+  }
+}
+
+// Controller for point-in-time comparison (GET /diff/:address)
+// Compares two stored snapshots; `from` defaults to 7 days before `to`.
+export async function getPortfolioDiffController(
+  request: FastifyRequest<{ Params: PortfolioParams; Querystring: DiffQuery }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+  const { from: fromQuery, to: toQuery } = request.query;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  const to = toQuery ? parseDateParam(toQuery) : new Date();
+  const from = fromQuery
+    ? parseDateParam(fromQuery)
+    : to
+      ? new Date(to.getTime() - DEFAULT_DIFF_RANGE_MS)
+      : null;
+
+  if (!from || !to || from > to) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message:
+        'Invalid date range. Use ISO dates or millisecond timestamps with from <= to.',
+    });
+  }
+
+  try {
+    const data = await getPortfolioDiff(normalizedAddress, from, to);
+    if (!data) {
+      return reply.code(404).send({
+        status: 'error',
+        data: null,
+        message: `No portfolio snapshots found for ${normalizedAddress} up to ${to.toISOString()}.`,
+      });
+    }
+    return reply.send({ status: 'ready', data });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to diff portfolio for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error comparing portfolio snapshots.',
+    });
+  }
+}
+
+// Controller for cost basis / PnL (GET /pnl/:address)
+export async function getPortfolioPnlController(
+  request: FastifyRequest<{ Params: PortfolioParams; Querystring: PnlQuery }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+  const { method = 'fifo' } = request.query;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    // Unrealized PnL needs current floor values from a calculated summary
+    const summary = await getCachedPortfolioSummary(normalizedAddress);
+    if (!summary) {
+      return await sendCalculationPending(request, reply, normalizedAddress);
+    }
+
+    const pnl = await calculatePortfolioPnl(
+      normalizedAddress,
+      summary.breakdown,
+      method
+    );
+    const data: PortfolioPnlResponse = {
+      address: normalizedAddress,
+      summary: pnl.summary,
+      collections: pnl.collections,
+      calculatedAt: summary.calculatedAt,
+    };
+    return reply.send({ status: 'ready', data });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to calculate PnL for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error calculating portfolio PnL.',
+    });
+  }
+}
+
+// Controller for multi-wallet bundles (POST /bundle)
+export async function getPortfolioBundleController(
+  request: FastifyRequest<{ Body: PortfolioBundleRequestBody }>,
+  reply: FastifyReply
+) {
+  const { addresses } = request.body;
+
+  // 1. Resolve ENS names and validate addresses (deduplicated, order kept)
+  const members = new Map<string, string>(); // normalized address -> input
+  for (const input of addresses) {
+    const trimmed = input.trim();
+    let resolved = ethers.isAddress(trimmed) ? trimmed : null;
+    if (!resolved && trimmed.includes('.')) {
+      resolved = await resolveEnsName(trimmed); // ENS name
+    }
+    if (!resolved) {
+      return reply.code(400).send({
+        status: 'error',
+        data: null,
+        message: `Invalid Ethereum address or unresolvable ENS name: ${input}`,
+      });
+    }
+    const normalized = resolved.toLowerCase();
+    if (!members.has(normalized)) members.set(normalized, trimmed);
+  }
+
+  try {
+    // 2. Fan out: use cached summaries, queue jobs for the rest
+    const ready: BundleMemberSummary[] = [];
+    const walletStatuses: PortfolioBundleWalletStatus[] = [];
+
+    for (const [address, input] of members) {
+      const summary = await getCachedPortfolioSummary(address);
+      if (summary) {
+        ready.push({ address, input, summary });
+        walletStatuses.push({ address, input, status: 'ready' });
+        continue;
+      }
+
+      const jobInfo = await getPortfolioJob(address);
+      const isJobRunning =
+        jobInfo !== null &&
+        ['active', 'waiting', 'delayed'].includes(jobInfo.status);
+      if (isJobRunning) {
+        walletStatuses.push({
+          address,
+          input,
+          status: 'calculating',
+          progress: jobInfo.progress || initialProgress,
+        });
+        continue;
+      }
+
+      const addedJob = await addPortfolioJob({ address });
+      walletStatuses.push({
+        address,
+        input,
+        status: addedJob ? 'calculating' : 'error',
+        progress: addedJob ? initialProgress : undefined,
+      });
+    }
+
+    // 3. Some wallets still calculating: report per-wallet status
+    if (ready.length < members.size) {
+      const calculatingCount = walletStatuses.filter(
+        (w) => w.status !== 'ready'
+      ).length;
+      request.log.info(
+        `[Portfolio API Bundle] ${calculatingCount}/${members.size} wallets not ready yet.`
+      );
+      return reply.code(202).send({
+        status: 'calculating',
+        data: null,
+        message: `Waiting on ${calculatingCount} of ${members.size} wallet calculations.`,
+        wallets: walletStatuses,
+      });
+    }
+
+    // 4. All wallets ready: merge into one summary
+    return reply.send({
+      status: 'ready',
+      data: mergePortfolioSummaries(ready),
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error },
+      '[Portfolio API Error] Unexpected error building portfolio bundle'
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error processing portfolio bundle.',
+    });
+  }
+}
+
+// Controller for holdings export (GET /export/:address)
+// Returns one row per token from the cached summary as a CSV or JSON download.
+export async function getPortfolioExportController(
+  request: FastifyRequest<{
+    Params: PortfolioParams;
+    Querystring: ExportQuery;
+  }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+  const { format = 'csv', currency = 'usd' } = request.query;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    const summary = await getCachedPortfolioSummary(normalizedAddress);
+    if (!summary) {
+      return await sendCalculationPending(request, reply, normalizedAddress);
+    }
+
+    const data = buildPortfolioExport(normalizedAddress, summary, currency);
+    const fileName = `portfolio-${normalizedAddress}-${data.exportedAt.slice(0, 10)}.${format}`;
+    reply.header('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'json') {
+      return reply
+        .type('application/json; charset=utf-8')
+        .send(JSON.stringify(data, null, 2));
+    }
+    return reply
+      .type('text/csv; charset=utf-8')
+      .send(portfolioExportToCsv(data));
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to export portfolio for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error exporting portfolio.',
+    });
+  }
+}
+
+// Queues a recalculation after the hidden list changed. Failures are only
+// logged: the change is saved and the next calculation will pick it up.
+async function requeueAfterHiddenChange(
+  request: FastifyRequest,
+  normalizedAddress: string
+) {
+  try {
+    await ensurePortfolioCalculation(request, normalizedAddress);
+  } catch (queueError) {
+    request.log.error(
+      `[Portfolio API Queue Error] Failed to queue recalculation for ${normalizedAddress}:`,
+      queueError
+    );
+  }
+}
+
+// Controller for the hidden-collections list (GET /hidden/:address)
+export async function getHiddenCollectionsController(
+  request: FastifyRequest<{ Params: PortfolioParams }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    const hiddenCollections = await getHiddenCollections(normalizedAddress);
+    return reply.send({
+      status: 'ready',
+      data: { address: normalizedAddress, hiddenCollections },
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to read hidden collections for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error reading hidden collections.',
+    });
+  }
+}
+
+// Controller for hiding collections (POST /hidden/:address)
+export async function hideCollectionsController(
+  request: FastifyRequest<{
+    Params: PortfolioParams;
+    Body: PortfolioHiddenCollectionsBody;
+  }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+  const { slugs } = request.body;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    const hiddenCollections = await hidePortfolioCollections(
+      normalizedAddress,
+      slugs.map((slug) => slug.trim()).filter(Boolean)
+    );
+    await requeueAfterHiddenChange(request, normalizedAddress);
+    return reply.send({
+      status: 'ready',
+      data: { address: normalizedAddress, hiddenCollections },
+      message: 'Hidden collections updated. Portfolio recalculation queued.',
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to hide collections for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error updating hidden collections.',
+    });
+  }
+}
+
+// Controller for un-hiding a collection (DELETE /hidden/:address/:slug)
+export async function unhideCollectionController(
+  request: FastifyRequest<{ Params: HiddenCollectionParams }>,
+  reply: FastifyReply
+) {
+  const { address, slug } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    const hiddenCollections = await unhidePortfolioCollection(
+      normalizedAddress,
+      slug
+    );
+    await requeueAfterHiddenChange(request, normalizedAddress);
+    return reply.send({
+      status: 'ready',
+      data: { address: normalizedAddress, hiddenCollections },
+      message: 'Hidden collections updated. Portfolio recalculation queued.',
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to unhide collection ${slug} for ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error updating hidden collections.',
+    });
+  }
+}
+
+// Controller for the watched-wallet registry (GET /watch)
+export async function listWatchedWalletsController(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const wallets = await listWatchedWallets();
+    const data = await Promise.all(
+      wallets.map(async (wallet) => {
+        const nextRunAt = await getWatchedWalletNextRun(wallet.address);
+        return {
+          ...wallet,
+          nextRunAt: nextRunAt ? new Date(nextRunAt).toISOString() : null,
+        };
+      })
+    );
+    return reply.send({ status: 'ready', data });
+  } catch (error) {
+    request.log.error(
+      { err: error },
+      '[Portfolio API Error] Failed to list watched wallets'
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error listing watched wallets.',
+    });
+  }
+}
+
+// Controller for adding or rescheduling a watched wallet (PUT /watch/:address)
+export async function watchWalletController(
+  request: FastifyRequest<{
+    Params: PortfolioParams;
+    Body: PortfolioWatchRequestBody;
+  }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+  const { schedule, label } = request.body;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    const wallet = await saveWatchedWallet(normalizedAddress, schedule, label);
+    await scheduleWatchedWallet(
+      normalizedAddress,
+      WATCH_SCHEDULE_INTERVALS_MS[schedule]
+    );
+    const nextRunAt = await getWatchedWalletNextRun(normalizedAddress);
+    return reply.send({
+      status: 'ready',
+      data: {
+        ...wallet,
+        nextRunAt: nextRunAt ? new Date(nextRunAt).toISOString() : null,
+      },
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to watch ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error scheduling watched wallet.',
+    });
+  }
+}
+
+// Controller for removing a watched wallet (DELETE /watch/:address)
+export async function unwatchWalletController(
+  request: FastifyRequest<{ Params: PortfolioParams }>,
+  reply: FastifyReply
+) {
+  const { address } = request.params;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  const normalizedAddress = address.toLowerCase();
+
+  try {
+    // Remove the schedule first so a failed delete never leaves a stray job
+    await unscheduleWatchedWallet(normalizedAddress);
+    const deleted = await deleteWatchedWallet(normalizedAddress);
+    if (!deleted) {
+      return reply.code(404).send({
+        status: 'error',
+        data: null,
+        message: `Address ${normalizedAddress} is not watched.`,
+      });
+    }
+    return reply.code(204).send();
+  } catch (error) {
+    request.log.error(
+      { err: error, address: normalizedAddress },
+      `[Portfolio API Error] Failed to unwatch ${normalizedAddress}`
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error removing watched wallet.',
+    });
+  }
+}
+
+// Controller for creating a webhook subscription (POST /webhooks)
+export async function createWebhookController(
+  request: FastifyRequest<{ Body: PortfolioWebhookCreateBody }>,
+  reply: FastifyReply
+) {
+  const body = request.body;
+
+  if (!ethers.isAddress(body.address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+  if (
+    body.thresholdPercent === undefined &&
+    body.thresholdEth === undefined &&
+    !body.notifyCollectionChanges
+  ) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message:
+        'Set thresholdPercent, thresholdEth and/or notifyCollectionChanges.',
+    });
+  }
+  const urlError = await checkWebhookUrl(body.url);
+  if (urlError) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: urlError,
+    });
+  }
+
+  try {
+    const { webhook, secret } = await createPortfolioWebhook(body);
+    request.log.info(
+      `[Portfolio API] Created webhook ${webhook.id} for ${webhook.address}`
+    );
+    return reply.code(201).send({
+      status: 'ready',
+      data: { ...webhook, secret },
+      message: 'Store the secret now; it is not returned again.',
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error, address: body.address },
+      '[Portfolio API Error] Failed to create webhook'
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error creating webhook.',
+    });
+  }
+}
+
+// Controller for listing an address's webhooks (GET /webhooks?address=)
+export async function listWebhooksController(
+  request: FastifyRequest<{ Querystring: WebhookListQuery }>,
+  reply: FastifyReply
+) {
+  const { address } = request.query;
+
+  if (!ethers.isAddress(address)) {
+    return reply.code(400).send({
+      status: 'error',
+      data: null,
+      message: 'Invalid Ethereum address format.',
+    });
+  }
+
+  try {
+    const data = await listPortfolioWebhooks(address);
+    return reply.send({ status: 'ready', data });
+  } catch (error) {
+    request.log.error(
+      { err: error, address },
+      '[Portfolio API Error] Failed to list webhooks'
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error listing webhooks.',
+    });
+  }
+}
+
+// Controller for deleting a webhook (DELETE /webhooks/:id)
+export async function deleteWebhookController(
+  request: FastifyRequest<{ Params: WebhookParams }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+
+  try {
+    const deleted = await deletePortfolioWebhook(id);
+    if (!deleted) {
+      return reply.code(404).send({
+        status: 'error',
+        data: null,
+        message: `Webhook ${id} not found.`,
+      });
+    }
+    return reply.code(204).send();
+  } catch (error) {
+    request.log.error(
+      { err: error, webhookId: id },
+      '[Portfolio API Error] Failed to delete webhook'
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error deleting webhook.',
+    });
+  }
+}
+
+// Controller for a webhook's delivery log (GET /webhooks/:id/deliveries)
+export async function getWebhookDeliveriesController(
+  request: FastifyRequest<{
+    Params: WebhookParams;
+    Querystring: WebhookDeliveriesQuery;
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const { status } = request.query;
+
+  try {
+    const data = await getWebhookDeliveries(id, status);
+    if (!data) {
+      return reply.code(404).send({
+        status: 'error',
+        data: null,
+        message: `Webhook ${id} not found.`,
+      });
+    }
+    return reply.send({ status: 'ready', data });
+  } catch (error) {
+    request.log.error(
+      { err: error, webhookId: id },
+      '[Portfolio API Error] Failed to read webhook deliveries'
+    );
+    return reply.code(500).send({
+      status: 'error',
+      data: null,
+      message: 'Internal Server Error reading webhook deliveries.',
     });
   }
 }
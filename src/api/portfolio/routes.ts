@@ -1,5 +1,25 @@
 import { FastifyInstance } from 'fastify';
-import { getPortfolioSummaryController } from './controller';
+import {
+  getPortfolioSummaryController,
+  getPortfolioSummaryStreamController,
+  refreshPortfolioSummaryController,
+  getPortfolioHistoryController,
+  getPortfolioPnlController,
+  getPortfolioDiffController,
+  getPortfolioBundleController,
+  getPortfolioExportController,
+  getHiddenCollectionsController,
+  hideCollectionsController,
+  unhideCollectionController,
+  listWatchedWalletsController,
+  watchWalletController,
+  unwatchWalletController,
+  createWebhookController,
+  listWebhooksController,
+  deleteWebhookController,
+  getWebhookDeliveriesController,
+} from './controller';
+import { SUPPORTED_CURRENCIES } from '../../services/priceFetcher';
 
 // Define schema for the address parameter
 const addressParamSchema = {
@@ -10,6 +30,156 @@ const addressParamSchema = {
   required: ['address'],
 };
 
+// Query schema for the summary endpoint
+const summaryQuerySchema = {
+  type: 'object',
+  properties: {
+    currency: {
+      type: 'string',
+      enum: SUPPORTED_CURRENCIES,
+      description: 'Adds *Fiat values converted from the ETH totals',
+    },
+    filter: {
+      type: 'string',
+      enum: ['all', 'exclude_not_requested', 'verified'],
+      description: 'Safelist filter; totals are recomputed for the mode',
+    },
+    valuation: {
+      type: 'string',
+      enum: ['floor', 'liquidity_adjusted'],
+      description: 'liquidity_adjusted adds discounted values next to raw',
+    },
+  },
+};
+
+// Params/body schemas for the hidden-collections list
+const hiddenCollectionParamSchema = {
+  type: 'object',
+  properties: {
+    address: { type: 'string' },
+    slug: { type: 'string', minLength: 1 },
+  },
+  required: ['address', 'slug'],
+};
+
+const hiddenCollectionsBodySchema = {
+  type: 'object',
+  required: ['slugs'],
+  properties: {
+    slugs: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      maxItems: 100,
+    },
+  },
+};
+
+// Query schema for the value-history endpoint
+const historyQuerySchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', description: 'ISO date or Unix ms timestamp' },
+    to: { type: 'string', description: 'ISO date or Unix ms timestamp' },
+    interval: {
+      type: 'string',
+      enum: ['raw', 'hour', 'day', 'week'],
+      default: 'day',
+    },
+  },
+};
+
+// Query schema for the snapshot comparison endpoint
+const diffQuerySchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', description: 'ISO date or Unix ms timestamp' },
+    to: { type: 'string', description: 'ISO date or Unix ms timestamp' },
+  },
+};
+
+// Query schema for the PnL endpoint
+const pnlQuerySchema = {
+  type: 'object',
+  properties: {
+    method: { type: 'string', enum: ['fifo', 'average'], default: 'fifo' },
+  },
+};
+
+// Body schema for multi-wallet bundles
+const bundleBodySchema = {
+  type: 'object',
+  required: ['addresses'],
+  properties: {
+    addresses: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      maxItems: 20,
+      description: 'Ethereum addresses and/or ENS names',
+    },
+  },
+};
+
+// Query schema for the export endpoint
+const exportQuerySchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['csv', 'json'], default: 'csv' },
+    currency: { type: 'string', enum: SUPPORTED_CURRENCIES, default: 'usd' },
+  },
+};
+
+// Body schema for adding/rescheduling a watched wallet
+const watchBodySchema = {
+  type: 'object',
+  required: ['schedule'],
+  properties: {
+    schedule: {
+      type: 'string',
+      enum: ['hourly', 'every_6_hours', 'daily', 'weekly'],
+    },
+    label: { type: 'string', maxLength: 100 },
+  },
+};
+
+// Schemas for webhook subscriptions
+const webhookBodySchema = {
+  type: 'object',
+  required: ['address', 'url'],
+  properties: {
+    address: { type: 'string' },
+    url: { type: 'string', pattern: '^https://', maxLength: 2048 },
+    secret: { type: 'string', minLength: 16, maxLength: 256 },
+    thresholdPercent: { type: 'number', exclusiveMinimum: 0 },
+    thresholdEth: { type: 'number', exclusiveMinimum: 0 },
+    notifyCollectionChanges: { type: 'boolean' },
+  },
+};
+
+const webhookListQuerySchema = {
+  type: 'object',
+  required: ['address'],
+  properties: {
+    address: { type: 'string' },
+  },
+};
+
+const webhookParamSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const webhookDeliveriesQuerySchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+  },
+};
+
 // Optional: Define a more specific response schema if needed
 
 export default async function (fastify: FastifyInstance) {
@@ -18,9 +188,196 @@ export default async function (fastify: FastifyInstance) {
     {
       schema: {
         params: addressParamSchema,
+        querystring: summaryQuerySchema,
         // response: { ... } // Add response schema later if desired
       },
     },
     getPortfolioSummaryController
   );
+
+  // POST /api/portfolio/summary/:address/refresh - Force a recalculation (rate limited)
+  fastify.post(
+    '/summary/:address/refresh',
+    {
+      schema: {
+        params: addressParamSchema,
+      },
+    },
+    refreshPortfolioSummaryController
+  );
+
+  // GET /api/portfolio/summary/:address/stream - SSE progress + final summary
+  fastify.get(
+    '/summary/:address/stream',
+    {
+      schema: {
+        params: addressParamSchema,
+      },
+    },
+    getPortfolioSummaryStreamController
+  );
+
+  // GET /api/portfolio/history/:address - Value time series from stored snapshots
+  fastify.get(
+    '/history/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+        querystring: historyQuerySchema,
+      },
+    },
+    getPortfolioHistoryController
+  );
+
+  // GET /api/portfolio/diff/:address - Compare two dated snapshots
+  fastify.get(
+    '/diff/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+        querystring: diffQuerySchema,
+      },
+    },
+    getPortfolioDiffController
+  );
+
+  // GET /api/portfolio/pnl/:address - Realized/unrealized PnL from sale events
+  fastify.get(
+    '/pnl/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+        querystring: pnlQuerySchema,
+      },
+    },
+    getPortfolioPnlController
+  );
+
+  // POST /api/portfolio/bundle - Combined summary across several wallets
+  fastify.post(
+    '/bundle',
+    {
+      schema: {
+        body: bundleBodySchema,
+      },
+    },
+    getPortfolioBundleController
+  );
+
+  // GET /api/portfolio/export/:address - Download holdings as CSV or JSON
+  fastify.get(
+    '/export/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+        querystring: exportQuerySchema,
+      },
+    },
+    getPortfolioExportController
+  );
+
+  // GET /api/portfolio/hidden/:address - Collections hidden from the portfolio
+  fastify.get(
+    '/hidden/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+      },
+    },
+    getHiddenCollectionsController
+  );
+
+  // POST /api/portfolio/hidden/:address - Hide collections and recalculate
+  fastify.post(
+    '/hidden/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+        body: hiddenCollectionsBodySchema,
+      },
+    },
+    hideCollectionsController
+  );
+
+  // DELETE /api/portfolio/hidden/:address/:slug - Unhide a collection and recalculate
+  fastify.delete(
+    '/hidden/:address/:slug',
+    {
+      schema: {
+        params: hiddenCollectionParamSchema,
+      },
+    },
+    unhideCollectionController
+  );
+
+  // GET /api/portfolio/watch - Watched wallets with last/next scheduled runs
+  fastify.get('/watch', listWatchedWalletsController);
+
+  // PUT /api/portfolio/watch/:address - Watch a wallet or change its schedule
+  fastify.put(
+    '/watch/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+        body: watchBodySchema,
+      },
+    },
+    watchWalletController
+  );
+
+  // DELETE /api/portfolio/watch/:address - Stop scheduled refreshes
+  fastify.delete(
+    '/watch/:address',
+    {
+      schema: {
+        params: addressParamSchema,
+      },
+    },
+    unwatchWalletController
+  );
+
+  // POST /api/portfolio/webhooks - Subscribe to value/collection changes
+  fastify.post(
+    '/webhooks',
+    {
+      schema: {
+        body: webhookBodySchema,
+      },
+    },
+    createWebhookController
+  );
+
+  // GET /api/portfolio/webhooks?address= - Webhooks of an address
+  fastify.get(
+    '/webhooks',
+    {
+      schema: {
+        querystring: webhookListQuerySchema,
+      },
+    },
+    listWebhooksController
+  );
+
+  // DELETE /api/portfolio/webhooks/:id - Remove a webhook
+  fastify.delete(
+    '/webhooks/:id',
+    {
+      schema: {
+        params: webhookParamSchema,
+      },
+    },
+    deleteWebhookController
+  );
+
+  // GET /api/portfolio/webhooks/:id/deliveries - Delivery log, newest first
+  fastify.get(
+    '/webhooks/:id/deliveries',
+    {
+      schema: {
+        params: webhookParamSchema,
+        querystring: webhookDeliveriesQuerySchema,
+      },
+    },
+    getWebhookDeliveriesController
+  );
 }
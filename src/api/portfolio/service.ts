@@ -0,0 +1,1354 @@
+import crypto from 'crypto';
+import { isValidObjectId } from 'mongoose';
+import redisClient from '../../lib/redis';
+import PortfolioSnapshotModel, {
+  IPortfolioSnapshot,
+  IPortfolioSnapshotCollection,
+} from '../../models/PortfolioSnapshot';
+import ActivityEventModel from '../../models/ActivityEvent';
+import { saleValueEth } from '../event/service';
+import PortfolioPreferencesModel from '../../models/PortfolioPreferences';
+import WatchedWalletModel, { IWatchedWallet } from '../../models/WatchedWallet';
+import PortfolioWebhookModel, {
+  IPortfolioWebhook,
+} from '../../models/PortfolioWebhook';
+import WebhookDeliveryModel from '../../models/WebhookDelivery';
+import {
+  PortfolioSummaryData,
+  PortfolioCollectionBreakdown,
+  PortfolioHistoryInterval,
+  PortfolioHistoryPoint,
+  PnlMethod,
+  PortfolioPnlSummary,
+  PortfolioPnlCollectionItem,
+  PortfolioCollectionPnl,
+  PortfolioBundleWallet,
+  PortfolioTokenQuantity,
+  PortfolioExportRow,
+  PortfolioExportData,
+  PortfolioCurrencyRate,
+  PortfolioCollectionFilter,
+  PortfolioWatchSchedule,
+  PortfolioWatchedWallet,
+  PortfolioWebhookCreateBody,
+  PortfolioWebhookInfo,
+  PortfolioWebhookDeliveryInfo,
+  PortfolioWebhookPayload,
+  PortfolioRiskMetrics,
+  PortfolioCollectionLiquidity,
+  PortfolioDiffCollection,
+  PortfolioDiffEndpoint,
+  PortfolioDiffResponse,
+} from './types';
+import { getEthPrices, FiatCurrency } from '../../services/priceFetcher';
+
+// Constants
+const CACHE_PREFIX_PORTFOLIO = 'portfolio:summary:';
+const CACHE_PREFIX_PORTFOLIO_STALE = 'portfolio:summary:stale:'; // Last known summary, outlives the 4h key
+const MAX_HISTORY_POINTS = 1000; // Safety cap on points returned per request
+const VERIFIED_SAFELIST_STATUSES = ['verified', 'approved'];
+const MAX_WEBHOOK_DELIVERIES = 100; // Delivery log entries returned per request
+const LOW_OWNER_THRESHOLD = 100; // Collections with fewer owners count as thinly held
+const LOW_VOLUME_THRESHOLD_ETH = 10; // Collections with less all-time volume count as illiquid
+const LIQUIDITY_SALES_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // Recent sales window
+const LIQUIDITY_FULL_OWNER_RATIO = 0.5; // Owners/supply at which the owner score is 1
+const MIN_LIQUIDITY_FACTOR = 0.2; // Floor value is never discounted by more than 80%
+
+// Repeat interval of each watch schedule
+export const WATCH_SCHEDULE_INTERVALS_MS: Record<
+  PortfolioWatchSchedule,
+  number
+> = {
+  hourly: 60 * 60 * 1000,
+  every_6_hours: 6 * 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// --- Cached Summary ---
+
+async function readCachedSummary(
+  cacheKey: string
+): Promise<PortfolioSummaryData | null> {
+  try {
+    const cachedData = await redisClient.get(cacheKey);
+    if (!cachedData) return null;
+    return JSON.parse(cachedData) as PortfolioSummaryData;
+  } catch (error) {
+    console.error(
+      `[Portfolio Service] Failed to read cached summary for key ${cacheKey}:`,
+      error
+    );
+    return null;
+  }
+}
+
+// Reads the worker's cached summary. Returns null on a miss or unreadable data.
+export async function getCachedPortfolioSummary(
+  address: string
+): Promise<PortfolioSummaryData | null> {
+  return readCachedSummary(`${CACHE_PREFIX_PORTFOLIO}${address.toLowerCase()}`);
+}
+
+// Reads the last known summary, kept after the fresh cache entry expires
+export async function getStalePortfolioSummary(
+  address: string
+): Promise<PortfolioSummaryData | null> {
+  return readCachedSummary(
+    `${CACHE_PREFIX_PORTFOLIO_STALE}${address.toLowerCase()}`
+  );
+}
+
+// --- Pricing Coverage ---
+
+// Summary-level coverage fields so clients can flag partial valuations
+export function summarizePricingCoverage(
+  breakdown: PortfolioCollectionBreakdown[]
+): Pick<
+  PortfolioSummaryData,
+  'pricedNftCount' | 'coveragePercent' | 'failedCollections'
+> {
+  let nftCount = 0;
+  let pricedNftCount = 0;
+  const failedCollections: string[] = [];
+
+  breakdown.forEach((item) => {
+    nftCount += item.nftCount;
+    if (item.pricingStatus === 'priced') pricedNftCount += item.nftCount;
+    if (item.pricingStatus === 'fetch_failed')
+      failedCollections.push(item.slug);
+  });
+
+  const coveragePercent =
+    nftCount > 0 ? Math.round((pricedNftCount / nftCount) * 10000) / 100 : 100;
+
+  return { pricedNftCount, coveragePercent, failedCollections };
+}
+
+// --- Collection Filtering ---
+
+function matchesCollectionFilter(
+  item: PortfolioCollectionBreakdown,
+  filter: PortfolioCollectionFilter
+): boolean {
+  switch (filter) {
+    case 'exclude_not_requested':
+      return item.safelistStatus !== 'not_requested';
+    case 'verified':
+      return (
+        item.safelistStatus !== null &&
+        VERIFIED_SAFELIST_STATUSES.includes(item.safelistStatus)
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Returns a copy of the summary restricted to collections matching the
+ * safelist filter, with totals, counts and coverage recomputed. Cost basis
+ * and unrealized PnL follow the remaining collections; realized PnL stays
+ * wallet-wide since sold collections are no longer in the breakdown.
+ */
+export function filterPortfolioSummary(
+  summary: PortfolioSummaryData,
+  filter: PortfolioCollectionFilter
+): PortfolioSummaryData {
+  if (filter === 'all') return { ...summary, filter };
+
+  const breakdown = summary.breakdown.filter((item) =>
+    matchesCollectionFilter(item, filter)
+  );
+  const excludedCollections = summary.breakdown
+    .filter((item) => !matchesCollectionFilter(item, filter))
+    .map((item) => item.slug);
+
+  const filtered: PortfolioSummaryData = {
+    ...summary,
+    totalValueEth: breakdown.reduce((sum, item) => sum + item.totalValueEth, 0),
+    nftCount: breakdown.reduce((sum, item) => sum + item.nftCount, 0),
+    collectionCount: breakdown.length,
+    breakdown,
+    ...summarizePricingCoverage(breakdown),
+    filter,
+    excludedCollections,
+  };
+  if (summary.risk) {
+    filtered.risk = calculatePortfolioRisk(breakdown);
+  }
+  if (summary.totalValueUsd !== undefined) {
+    filtered.totalValueUsd = breakdown.reduce(
+      (sum, item) => sum + (item.totalValueUsd ?? 0),
+      0
+    );
+  }
+  if (summary.pnl) {
+    const costBasisEth = breakdown.reduce(
+      (sum, item) => sum + (item.pnl?.costBasisEth ?? 0),
+      0
+    );
+    const unrealizedPnlEth = breakdown.reduce(
+      (sum, item) => sum + (item.pnl?.unrealizedPnlEth ?? 0),
+      0
+    );
+    filtered.pnl = {
+      ...summary.pnl,
+      costBasisEth,
+      unrealizedPnlEth,
+      totalPnlEth: unrealizedPnlEth + summary.pnl.realizedPnlEth,
+      uncostedNftCount: breakdown.reduce(
+        (sum, item) => sum + (item.pnl?.uncostedNftCount ?? 0),
+        0
+      ),
+    };
+  }
+  return filtered;
+}
+
+// --- Hidden Collections ---
+
+// Slugs the user hid for this address; the worker leaves them out entirely
+export async function getHiddenCollections(address: string): Promise<string[]> {
+  const preferences = await PortfolioPreferencesModel.findOne({
+    address: address.toLowerCase(),
+  }).lean();
+  return preferences?.hiddenCollections ?? [];
+}
+
+export async function hidePortfolioCollections(
+  address: string,
+  slugs: string[]
+): Promise<string[]> {
+  const preferences = await PortfolioPreferencesModel.findOneAndUpdate(
+    { address: address.toLowerCase() },
+    { $addToSet: { hiddenCollections: { $each: slugs } } },
+    { upsert: true, new: true }
+  ).lean();
+  return preferences?.hiddenCollections ?? [];
+}
+
+export async function unhidePortfolioCollection(
+  address: string,
+  slug: string
+): Promise<string[]> {
+  const preferences = await PortfolioPreferencesModel.findOneAndUpdate(
+    { address: address.toLowerCase() },
+    { $pull: { hiddenCollections: slug } },
+    { new: true }
+  ).lean();
+  return preferences?.hiddenCollections ?? [];
+}
+
+// --- Watched Wallets ---
+
+// nextRunAt lives in the BullMQ scheduler, so callers fill it in
+function toWatchedWallet(
+  doc: Pick<
+    IWatchedWallet,
+    'address' | 'schedule' | 'label' | 'lastRunAt' | 'lastCalculatedAt'
+  >
+): PortfolioWatchedWallet {
+  return {
+    address: doc.address,
+    schedule: doc.schedule,
+    label: doc.label ?? null,
+    lastRunAt: doc.lastRunAt ? doc.lastRunAt.toISOString() : null,
+    lastCalculatedAt: doc.lastCalculatedAt
+      ? doc.lastCalculatedAt.toISOString()
+      : null,
+    nextRunAt: null,
+  };
+}
+
+export async function listWatchedWallets(): Promise<PortfolioWatchedWallet[]> {
+  const docs = await WatchedWalletModel.find().sort({ createdAt: 1 }).lean();
+  return docs.map(toWatchedWallet);
+}
+
+export async function saveWatchedWallet(
+  address: string,
+  schedule: PortfolioWatchSchedule,
+  label?: string
+): Promise<PortfolioWatchedWallet> {
+  const doc = await WatchedWalletModel.findOneAndUpdate(
+    { address: address.toLowerCase() },
+    { schedule, ...(label !== undefined ? { label } : {}) },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean();
+  return toWatchedWallet(doc);
+}
+
+// Returns false when the address was not watched
+export async function deleteWatchedWallet(address: string): Promise<boolean> {
+  const result = await WatchedWalletModel.deleteOne({
+    address: address.toLowerCase(),
+  });
+  return result.deletedCount > 0;
+}
+
+// Records a scheduled trigger or a finished calculation for a watched address
+export async function recordWatchedWalletRun(
+  address: string,
+  field: 'lastRunAt' | 'lastCalculatedAt'
+): Promise<void> {
+  await WatchedWalletModel.updateOne(
+    { address: address.toLowerCase() },
+    { [field]: new Date() }
+  );
+}
+
+// --- Webhook Subscriptions ---
+
+function toWebhookInfo(
+  doc: Pick<
+    IPortfolioWebhook,
+    | '_id'
+    | 'address'
+    | 'url'
+    | 'thresholdPercent'
+    | 'thresholdEth'
+    | 'notifyCollectionChanges'
+    | 'active'
+    | 'createdAt'
+  >
+): PortfolioWebhookInfo {
+  return {
+    id: String(doc._id),
+    address: doc.address,
+    url: doc.url,
+    thresholdPercent: doc.thresholdPercent,
+    thresholdEth: doc.thresholdEth,
+    notifyCollectionChanges: doc.notifyCollectionChanges,
+    active: doc.active,
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+// The secret is only ever returned here, so the caller must store it
+export async function createPortfolioWebhook(
+  body: PortfolioWebhookCreateBody
+): Promise<{ webhook: PortfolioWebhookInfo; secret: string }> {
+  const secret = body.secret ?? crypto.randomBytes(32).toString('hex');
+  const doc = await PortfolioWebhookModel.create({
+    address: body.address.toLowerCase(),
+    url: body.url,
+    secret,
+    thresholdPercent: body.thresholdPercent ?? null,
+    thresholdEth: body.thresholdEth ?? null,
+    notifyCollectionChanges: body.notifyCollectionChanges ?? false,
+  });
+  return { webhook: toWebhookInfo(doc.toObject()), secret };
+}
+
+export async function listPortfolioWebhooks(
+  address: string
+): Promise<PortfolioWebhookInfo[]> {
+  const docs = await PortfolioWebhookModel.find({
+    address: address.toLowerCase(),
+  })
+    .sort({ createdAt: 1 })
+    .lean();
+  return docs.map(toWebhookInfo);
+}
+
+// Returns false when no webhook has this id
+export async function deletePortfolioWebhook(id: string): Promise<boolean> {
+  if (!isValidObjectId(id)) return false;
+  const result = await PortfolioWebhookModel.deleteOne({ _id: id });
+  return result.deletedCount > 0;
+}
+
+// Newest deliveries first; null when no webhook has this id
+export async function getWebhookDeliveries(
+  id: string,
+  status?: PortfolioWebhookDeliveryInfo['status']
+): Promise<PortfolioWebhookDeliveryInfo[] | null> {
+  if (!isValidObjectId(id)) return null;
+  const exists = await PortfolioWebhookModel.exists({ _id: id });
+  if (!exists) return null;
+
+  const deliveries = await WebhookDeliveryModel.find({
+    webhookId: id,
+    ...(status ? { status } : {}),
+  })
+    .sort({ createdAt: -1 })
+    .limit(MAX_WEBHOOK_DELIVERIES)
+    .lean();
+
+  return deliveries.map((delivery) => ({
+    id: String(delivery._id),
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    lastError: delivery.lastError,
+    payload: delivery.payload as unknown as PortfolioWebhookPayload,
+    createdAt: delivery.createdAt.toISOString(),
+    deliveredAt: delivery.deliveredAt
+      ? delivery.deliveredAt.toISOString()
+      : null,
+  }));
+}
+
+// --- Currency Conversion ---
+
+/**
+ * Returns a copy of the summary with `*Fiat` values in `currency`, converted
+ * from the ETH totals at the current priceFetcher rate. The cached summary is
+ * not touched, so no recalculation is needed to switch currencies.
+ */
+export function convertPortfolioSummary(
+  summary: PortfolioSummaryData,
+  currency: FiatCurrency
+): PortfolioSummaryData {
+  const prices = getEthPrices();
+  const ethPrice = prices[currency] ?? null;
+  const rate: PortfolioCurrencyRate = {
+    code: currency,
+    ethPrice,
+    lastUpdated: prices.lastUpdated
+      ? new Date(prices.lastUpdated).toISOString()
+      : null,
+    isDefault: prices.isDefault ?? false,
+  };
+  if (ethPrice === null) {
+    return { ...summary, currency: rate };
+  }
+
+  return {
+    ...summary,
+    totalValueFiat: summary.totalValueEth * ethPrice,
+    ...(summary.liquidityAdjustedValueEth !== undefined
+      ? {
+          liquidityAdjustedValueFiat:
+            summary.liquidityAdjustedValueEth * ethPrice,
+        }
+      : {}),
+    currency: rate,
+    breakdown: summary.breakdown.map((item) => ({
+      ...item,
+      floorPriceFiat: item.floorPriceEth * ethPrice,
+      totalValueFiat: item.totalValueEth * ethPrice,
+      ...(item.liquidity
+        ? {
+            liquidity: {
+              ...item.liquidity,
+              adjustedValueFiat: item.liquidity.adjustedValueEth * ethPrice,
+            },
+          }
+        : {}),
+    })),
+  };
+}
+
+// --- Risk Metrics ---
+
+// True when the holding's floor value is more than the collection traded in 24h
+export function isBeyondDailyVolume(
+  item: Pick<PortfolioCollectionBreakdown, 'totalValueEth' | 'oneDayVolumeEth'>
+): boolean {
+  return (
+    item.oneDayVolumeEth !== undefined &&
+    item.totalValueEth > 0 &&
+    item.totalValueEth > item.oneDayVolumeEth
+  );
+}
+
+/**
+ * Concentration and liquidity risk of a breakdown. Collections without stats
+ * (fetch failures have zero value anyway) never count as low owner/volume.
+ */
+export function calculatePortfolioRisk(
+  breakdown: PortfolioCollectionBreakdown[]
+): PortfolioRiskMetrics {
+  const totalValueEth = breakdown.reduce(
+    (sum, item) => sum + item.totalValueEth,
+    0
+  );
+  const toPercent = (valueEth: number) =>
+    totalValueEth > 0
+      ? Math.round((valueEth / totalValueEth) * 10000) / 100
+      : 0;
+  const sumValue = (items: PortfolioCollectionBreakdown[]) =>
+    items.reduce((sum, item) => sum + item.totalValueEth, 0);
+
+  const values = breakdown
+    .map((item) => item.totalValueEth)
+    .filter((value) => value > 0)
+    .sort((a, b) => b - a);
+  const herfindahlIndex =
+    totalValueEth > 0
+      ? values.reduce(
+          (sum, value) => sum + ((value / totalValueEth) * 100) ** 2,
+          0
+        )
+      : 0;
+
+  const lowOwnerItems = breakdown.filter(
+    (item) =>
+      item.numOwners !== undefined && item.numOwners < LOW_OWNER_THRESHOLD
+  );
+  const lowVolumeItems = breakdown.filter(
+    (item) =>
+      item.totalVolumeEth !== undefined &&
+      item.totalVolumeEth < LOW_VOLUME_THRESHOLD_ETH
+  );
+  const beyondDailyVolumeItems = breakdown.filter(isBeyondDailyVolume);
+
+  return {
+    herfindahlIndex: Math.round(herfindahlIndex * 100) / 100,
+    effectiveCollectionCount:
+      herfindahlIndex > 0
+        ? Math.round((10000 / herfindahlIndex) * 100) / 100
+        : 0,
+    topCollectionPercent: toPercent(values[0] ?? 0),
+    top3CollectionsPercent: toPercent(
+      values.slice(0, 3).reduce((sum, value) => sum + value, 0)
+    ),
+    lowOwnerCountPercent: toPercent(sumValue(lowOwnerItems)),
+    lowVolumePercent: toPercent(sumValue(lowVolumeItems)),
+    exceedsDailyVolumePercent: toPercent(sumValue(beyondDailyVolumeItems)),
+    exceedsDailyVolumeCollections: beyondDailyVolumeItems.map(
+      (item) => item.slug
+    ),
+    lowOwnerThreshold: LOW_OWNER_THRESHOLD,
+    lowVolumeThresholdEth: LOW_VOLUME_THRESHOLD_ETH,
+  };
+}
+
+// --- Liquidity-Adjusted Valuation ---
+
+// Units sold per collection slug since `sinceMs`, from stored sale events
+// (created_date is in ms)
+async function getRecentSaleCounts(
+  slugs: string[],
+  sinceMs: number
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (slugs.length === 0) return counts;
+  const results = await ActivityEventModel.aggregate<{
+    _id: string;
+    units: number;
+  }>([
+    {
+      $match: {
+        event_type: 'sale',
+        'nft.collection': { $in: slugs },
+        created_date: { $gte: sinceMs },
+      },
+    },
+    { $group: { _id: '$nft.collection', units: { $sum: '$quantity' } } },
+  ]);
+  results.forEach((result) => counts.set(result._id, result.units));
+  return counts;
+}
+
+function scoreLiquidity(
+  item: PortfolioCollectionBreakdown,
+  recentSaleCount: number
+): Omit<PortfolioCollectionLiquidity, 'adjustedValueEth' | 'adjustedValueUsd'> {
+  const supply = item.totalSupply ?? 0;
+  const ownerScore =
+    supply > 0 && item.numOwners !== undefined
+      ? Math.min(1, item.numOwners / supply / LIQUIDITY_FULL_OWNER_RATIO)
+      : null;
+  const marketCapEth = item.floorPriceEth * supply;
+  const volumeScore =
+    marketCapEth > 0 && item.totalVolumeEth !== undefined
+      ? Math.min(1, item.totalVolumeEth / marketCapEth)
+      : null;
+  const salesScore =
+    item.nftCount > 0 ? Math.min(1, recentSaleCount / item.nftCount) : 0;
+
+  const scores = [ownerScore, volumeScore, salesScore].filter(
+    (value): value is number => value !== null
+  );
+  const score = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+  return {
+    ownerScore,
+    volumeScore,
+    salesScore,
+    recentSaleCount,
+    score,
+    factor: MIN_LIQUIDITY_FACTOR + (1 - MIN_LIQUIDITY_FACTOR) * score,
+  };
+}
+
+/**
+ * Returns a copy of the summary with a liquidity-discounted value next to the
+ * raw floor value, per collection (`liquidity`) and in total. Each collection
+ * is scored on owner spread, all-time volume vs. market cap and stored
+ * 30-day sales vs. units held; the floor value is scaled by
+ * MIN_LIQUIDITY_FACTOR + (1 - MIN_LIQUIDITY_FACTOR) * score.
+ */
+export async function applyLiquidityAdjustment(
+  summary: PortfolioSummaryData
+): Promise<PortfolioSummaryData> {
+  const sinceMs = Date.now() - LIQUIDITY_SALES_WINDOW_MS;
+  const saleCounts = await getRecentSaleCounts(
+    summary.breakdown
+      .filter((item) => item.totalValueEth > 0)
+      .map((item) => item.slug),
+    sinceMs
+  );
+
+  let liquidityAdjustedValueEth = 0;
+  let liquidityAdjustedValueUsd: number | undefined =
+    summary.totalValueUsd !== undefined ? 0 : undefined;
+  const breakdown = summary.breakdown.map((item) => {
+    if (item.totalValueEth <= 0) return item;
+    const liquidity: PortfolioCollectionLiquidity = {
+      ...scoreLiquidity(item, saleCounts.get(item.slug) ?? 0),
+      adjustedValueEth: 0,
+    };
+    liquidity.adjustedValueEth = item.totalValueEth * liquidity.factor;
+    if (item.totalValueUsd !== undefined) {
+      liquidity.adjustedValueUsd = item.totalValueUsd * liquidity.factor;
+    }
+    liquidityAdjustedValueEth += liquidity.adjustedValueEth;
+    if (liquidityAdjustedValueUsd !== undefined) {
+      liquidityAdjustedValueUsd += liquidity.adjustedValueUsd ?? 0;
+    }
+    return { ...item, liquidity };
+  });
+
+  return {
+    ...summary,
+    breakdown,
+    valuation: 'liquidity_adjusted',
+    liquidityAdjustedValueEth,
+    liquidityAdjustedValueUsd,
+  };
+}
+
+// --- Snapshot Persistence ---
+
+// Stores a completed calculation so value history survives cache expiry
+export async function savePortfolioSnapshot(
+  address: string,
+  summary: PortfolioSummaryData
+): Promise<void> {
+  await PortfolioSnapshotModel.create({
+    address: address.toLowerCase(),
+    calculatedAt: new Date(summary.calculatedAt),
+    totalValueEth: summary.totalValueEth,
+    totalValueUsd: summary.totalValueUsd,
+    ethPriceUsd: summary.ethPriceUsd,
+    nftCount: summary.nftCount,
+    collectionCount: summary.collectionCount,
+    collections: summary.breakdown.map((item) => ({
+      slug: item.slug,
+      contractAddress: item.contractAddress,
+      name: item.name,
+      nftCount: item.nftCount,
+      floorPriceEth: item.floorPriceEth,
+      totalValueEth: item.totalValueEth,
+      totalValueUsd: item.totalValueUsd,
+    })),
+  });
+}
+
+// --- Value History ---
+
+export async function getPortfolioHistory(
+  address: string,
+  from: Date,
+  to: Date,
+  interval: PortfolioHistoryInterval
+): Promise<PortfolioHistoryPoint[]> {
+  const lowerCaseAddress = address.toLowerCase();
+
+  try {
+    const pipeline: any[] = [
+      {
+        $match: {
+          address: lowerCaseAddress,
+          calculatedAt: { $gte: from, $lte: to },
+        },
+      },
+      { $sort: { calculatedAt: 1 } },
+    ];
+
+    if (interval !== 'raw') {
+      // Keep the last snapshot in each bucket (most up-to-date value for that period)
+      pipeline.push(
+        {
+          $group: {
+            _id: { $dateTrunc: { date: '$calculatedAt', unit: interval } },
+            snapshot: { $last: '$$ROOT' },
+          },
+        },
+        { $replaceRoot: { newRoot: '$snapshot' } },
+        { $sort: { calculatedAt: 1 } }
+      );
+    }
+
+    pipeline.push({ $limit: MAX_HISTORY_POINTS });
+
+    const snapshots = await PortfolioSnapshotModel.aggregate(pipeline);
+
+    return snapshots.map((snapshot) => ({
+      timestamp: new Date(snapshot.calculatedAt).toISOString(),
+      totalValueEth: snapshot.totalValueEth,
+      totalValueUsd: snapshot.totalValueUsd,
+      nftCount: snapshot.nftCount,
+      collections: (snapshot.collections || []).map((col: any) => ({
+        slug: col.slug,
+        name: col.name ?? null,
+        nftCount: col.nftCount,
+        totalValueEth: col.totalValueEth,
+        totalValueUsd: col.totalValueUsd,
+      })),
+    }));
+  } catch (error) {
+    console.error(
+      `[Portfolio Service] Mongoose error fetching history for ${lowerCaseAddress}:`,
+      error
+    );
+    throw new Error('Failed to retrieve portfolio history from database.');
+  }
+}
+
+// --- Point-in-Time Comparison ---
+
+type SnapshotFields = Pick<
+  IPortfolioSnapshot,
+  | 'calculatedAt'
+  | 'totalValueEth'
+  | 'totalValueUsd'
+  | 'nftCount'
+  | 'collectionCount'
+  | 'collections'
+>;
+
+function toDiffEndpoint(snapshot: SnapshotFields): PortfolioDiffEndpoint {
+  return {
+    calculatedAt: snapshot.calculatedAt.toISOString(),
+    totalValueEth: snapshot.totalValueEth,
+    totalValueUsd: snapshot.totalValueUsd,
+    nftCount: snapshot.nftCount,
+    collectionCount: snapshot.collectionCount,
+  };
+}
+
+function diffCollection(
+  slug: string,
+  before: IPortfolioSnapshotCollection | undefined,
+  after: IPortfolioSnapshotCollection | undefined
+): PortfolioDiffCollection {
+  const fromNftCount = before?.nftCount ?? 0;
+  const toNftCount = after?.nftCount ?? 0;
+  const fromFloorPriceEth = before?.floorPriceEth ?? 0;
+  const toFloorPriceEth = after?.floorPriceEth ?? 0;
+  const fromValueEth = before?.totalValueEth ?? 0;
+  const toValueEth = after?.totalValueEth ?? 0;
+
+  let status: PortfolioDiffCollection['status'];
+  let floorEffectEth: number;
+  let holdingsEffectEth: number;
+  if (!before) {
+    status = 'added';
+    floorEffectEth = 0;
+    holdingsEffectEth = toValueEth;
+  } else if (!after) {
+    status = 'removed';
+    floorEffectEth = 0;
+    holdingsEffectEth = -fromValueEth;
+  } else {
+    status =
+      fromNftCount !== toNftCount || fromFloorPriceEth !== toFloorPriceEth
+        ? 'changed'
+        : 'unchanged';
+    floorEffectEth = (toFloorPriceEth - fromFloorPriceEth) * fromNftCount;
+    holdingsEffectEth = (toNftCount - fromNftCount) * toFloorPriceEth;
+  }
+
+  return {
+    slug,
+    name: after?.name ?? before?.name ?? null,
+    status,
+    fromNftCount,
+    toNftCount,
+    nftCountChange: toNftCount - fromNftCount,
+    fromFloorPriceEth,
+    toFloorPriceEth,
+    fromValueEth,
+    toValueEth,
+    valueChangeEth: toValueEth - fromValueEth,
+    floorEffectEth,
+    holdingsEffectEth,
+  };
+}
+
+/**
+ * Compares the snapshot in effect at `from` (the last one at or before it,
+ * else the first one after it) with the last snapshot at or before `to`.
+ * Returns null when the range has no snapshots to compare.
+ */
+export async function getPortfolioDiff(
+  address: string,
+  from: Date,
+  to: Date
+): Promise<PortfolioDiffResponse | null> {
+  const lowerCaseAddress = address.toLowerCase();
+  const fields =
+    'calculatedAt totalValueEth totalValueUsd nftCount collectionCount collections';
+
+  const toSnapshot = await PortfolioSnapshotModel.findOne({
+    address: lowerCaseAddress,
+    calculatedAt: { $lte: to },
+  })
+    .sort({ calculatedAt: -1 })
+    .select(fields)
+    .lean<SnapshotFields>();
+  if (!toSnapshot) return null;
+
+  const fromSnapshot =
+    (await PortfolioSnapshotModel.findOne({
+      address: lowerCaseAddress,
+      calculatedAt: { $lte: from },
+    })
+      .sort({ calculatedAt: -1 })
+      .select(fields)
+      .lean<SnapshotFields>()) ??
+    (await PortfolioSnapshotModel.findOne({
+      address: lowerCaseAddress,
+      calculatedAt: { $gt: from, $lte: to },
+    })
+      .sort({ calculatedAt: 1 })
+      .select(fields)
+      .lean<SnapshotFields>());
+  if (!fromSnapshot) return null;
+
+  const before = new Map(fromSnapshot.collections.map((c) => [c.slug, c]));
+  const after = new Map(toSnapshot.collections.map((c) => [c.slug, c]));
+  const slugs = new Set([...before.keys(), ...after.keys()]);
+  const collections = Array.from(slugs)
+    .map((slug) => diffCollection(slug, before.get(slug), after.get(slug)))
+    .sort((a, b) => Math.abs(b.valueChangeEth) - Math.abs(a.valueChangeEth));
+
+  return {
+    address: lowerCaseAddress,
+    from: toDiffEndpoint(fromSnapshot),
+    to: toDiffEndpoint(toSnapshot),
+    valueChangeEth: toSnapshot.totalValueEth - fromSnapshot.totalValueEth,
+    floorEffectEth: collections.reduce((sum, c) => sum + c.floorEffectEth, 0),
+    holdingsEffectEth: collections.reduce(
+      (sum, c) => sum + c.holdingsEffectEth,
+      0
+    ),
+    nftCountChange: toSnapshot.nftCount - fromSnapshot.nftCount,
+    addedCollections: collections
+      .filter((c) => c.status === 'added')
+      .map((c) => c.slug),
+    removedCollections: collections
+      .filter((c) => c.status === 'removed')
+      .map((c) => c.slug),
+    collections,
+  };
+}
+
+// --- Cost Basis & PnL ---
+
+interface CostLot {
+  unitCostEth: number | null; // null when acquired by transfer/mint or unpriced sale
+  quantity: number;
+}
+
+interface CollectionLedger {
+  lots: CostLot[]; // FIFO queue, oldest first
+  // Average-cost pool (known-cost units are disposed of first)
+  knownQuantity: number;
+  knownCostEth: number;
+  unknownQuantity: number;
+  realizedPnlEth: number;
+  realizedSaleCount: number;
+}
+
+function createLedger(): CollectionLedger {
+  return {
+    lots: [],
+    knownQuantity: 0,
+    knownCostEth: 0,
+    unknownQuantity: 0,
+    realizedPnlEth: 0,
+    realizedSaleCount: 0,
+  };
+}
+
+function acquireUnits(
+  ledger: CollectionLedger,
+  quantity: number,
+  unitCostEth: number | null,
+  method: PnlMethod
+): void {
+  if (method === 'fifo') {
+    ledger.lots.push({ unitCostEth, quantity });
+  } else if (unitCostEth === null) {
+    ledger.unknownQuantity += quantity;
+  } else {
+    ledger.knownQuantity += quantity;
+    ledger.knownCostEth += unitCostEth * quantity;
+  }
+}
+
+// Removes units from the ledger, returning how many had a known cost and their total cost
+function disposeUnits(
+  ledger: CollectionLedger,
+  quantity: number,
+  method: PnlMethod
+): { knownUnits: number; knownCostEth: number } {
+  let knownUnits = 0;
+  let knownCostEth = 0;
+
+  if (method === 'fifo') {
+    let remaining = quantity;
+    while (remaining > 0 && ledger.lots.length > 0) {
+      const lot = ledger.lots[0];
+      const taken = Math.min(remaining, lot.quantity);
+      if (lot.unitCostEth !== null) {
+        knownUnits += taken;
+        knownCostEth += lot.unitCostEth * taken;
+      }
+      lot.quantity -= taken;
+      remaining -= taken;
+      if (lot.quantity <= 0) ledger.lots.shift();
+    }
+  } else {
+    knownUnits = Math.min(quantity, ledger.knownQuantity);
+    if (knownUnits > 0) {
+      knownCostEth = (ledger.knownCostEth / ledger.knownQuantity) * knownUnits;
+      ledger.knownQuantity -= knownUnits;
+      ledger.knownCostEth -= knownCostEth;
+    }
+    ledger.unknownQuantity = Math.max(
+      0,
+      ledger.unknownQuantity - (quantity - knownUnits)
+    );
+  }
+
+  return { knownUnits, knownCostEth };
+}
+
+// Known-cost units still held according to the ledger
+function getHeldCost(
+  ledger: CollectionLedger,
+  method: PnlMethod
+): { quantity: number; costEth: number } {
+  if (method === 'average') {
+    return { quantity: ledger.knownQuantity, costEth: ledger.knownCostEth };
+  }
+  return ledger.lots.reduce(
+    (acc, lot) =>
+      lot.unitCostEth === null
+        ? acc
+        : {
+            quantity: acc.quantity + lot.quantity,
+            costEth: acc.costEth + lot.unitCostEth * lot.quantity,
+          },
+    { quantity: 0, costEth: 0 }
+  );
+}
+
+/**
+ * Calculates realized and unrealized PnL from stored ActivityEvent sales.
+ * Purchases (sales into the wallet) open cost lots; sales and transfers out close them.
+ * Current values come from the breakdown's floor prices, so only NFTs with a
+ * known ETH/WETH purchase price contribute to unrealized PnL.
+ */
+export async function calculatePortfolioPnl(
+  address: string,
+  breakdown: PortfolioCollectionBreakdown[],
+  method: PnlMethod = 'fifo'
+): Promise<{
+  summary: PortfolioPnlSummary;
+  collections: PortfolioPnlCollectionItem[];
+}> {
+  const lowerCaseAddress = address.toLowerCase();
+
+  const events = await ActivityEventModel.find({
+    event_type: { $in: ['sale', 'transfer'] },
+    $or: [
+      { 'from_account.address': lowerCaseAddress },
+      { 'to_account.address': lowerCaseAddress },
+    ],
+  })
+    .sort({ created_date: 1 }) // Replay history oldest first
+    .select({
+      event_type: 1,
+      created_date: 1,
+      transaction: 1,
+      nft: 1,
+      payment: 1,
+      price: 1,
+      from_account: 1,
+      to_account: 1,
+      quantity: 1,
+    })
+    .lean();
+
+  // OpenSea reports a transfer alongside each sale; the sale already moves ownership
+  const eventKey = (event: (typeof events)[number]) =>
+    `${event.transaction}:${event.nft.contract}:${event.nft.identifier}`;
+  const saleKeys = new Set(
+    events.filter((e) => e.event_type === 'sale').map(eventKey)
+  );
+
+  const ledgers = new Map<string, CollectionLedger>();
+  let unpricedSaleCount = 0;
+
+  for (const event of events) {
+    const isSale = event.event_type === 'sale';
+    if (!isSale && saleKeys.has(eventKey(event))) continue;
+
+    const isIncoming = event.to_account.address === lowerCaseAddress;
+    const isOutgoing = event.from_account.address === lowerCaseAddress;
+    if (isIncoming === isOutgoing) continue; // Self-transfer, nothing changes
+
+    const slug = event.nft.collection;
+    if (!ledgers.has(slug)) ledgers.set(slug, createLedger());
+    const ledger = ledgers.get(slug)!;
+    const quantity = event.quantity > 0 ? event.quantity : 1;
+    const priceEth = isSale ? saleValueEth(event) : null;
+    if (isSale && priceEth === null) unpricedSaleCount++;
+
+    if (isIncoming) {
+      acquireUnits(
+        ledger,
+        quantity,
+        priceEth === null ? null : priceEth / quantity,
+        method
+      );
+      continue;
+    }
+
+    const disposed = disposeUnits(ledger, quantity, method);
+    if (isSale && priceEth !== null && disposed.knownUnits > 0) {
+      const proceedsEth = (priceEth / quantity) * disposed.knownUnits;
+      ledger.realizedPnlEth += proceedsEth - disposed.knownCostEth;
+      ledger.realizedSaleCount++;
+    }
+  }
+
+  const collections: PortfolioPnlCollectionItem[] = [];
+  const breakdownSlugs = new Set(breakdown.map((item) => item.slug));
+
+  // Held collections: unrealized PnL against the current floor
+  breakdown.forEach((item) => {
+    const ledger = ledgers.get(item.slug) ?? createLedger();
+    const held = getHeldCost(ledger, method);
+    // Event history can be incomplete, so never cost more units than are held
+    const costedNftCount = Math.min(held.quantity, item.nftCount);
+    const costBasisEth =
+      held.quantity > 0 ? (held.costEth / held.quantity) * costedNftCount : 0;
+
+    collections.push({
+      slug: item.slug,
+      name: item.name,
+      nftCount: item.nftCount,
+      costBasisEth,
+      costedNftCount,
+      uncostedNftCount: item.nftCount - costedNftCount,
+      unrealizedPnlEth: item.floorPriceEth * costedNftCount - costBasisEth,
+      realizedPnlEth: ledger.realizedPnlEth,
+      realizedSaleCount: ledger.realizedSaleCount,
+    });
+  });
+
+  // Collections no longer held only contribute realized PnL
+  ledgers.forEach((ledger, slug) => {
+    if (breakdownSlugs.has(slug) || ledger.realizedSaleCount === 0) return;
+    collections.push({
+      slug,
+      name: null,
+      nftCount: 0,
+      costBasisEth: 0,
+      costedNftCount: 0,
+      uncostedNftCount: 0,
+      unrealizedPnlEth: 0,
+      realizedPnlEth: ledger.realizedPnlEth,
+      realizedSaleCount: ledger.realizedSaleCount,
+    });
+  });
+
+  const summary: PortfolioPnlSummary = {
+    method,
+    costBasisEth: 0,
+    unrealizedPnlEth: 0,
+    realizedPnlEth: 0,
+    totalPnlEth: 0,
+    uncostedNftCount: 0,
+    unpricedSaleCount,
+  };
+  collections.forEach((col) => {
+    summary.costBasisEth += col.costBasisEth;
+    summary.unrealizedPnlEth += col.unrealizedPnlEth;
+    summary.realizedPnlEth += col.realizedPnlEth;
+    summary.uncostedNftCount += col.uncostedNftCount;
+  });
+  summary.totalPnlEth = summary.unrealizedPnlEth + summary.realizedPnlEth;
+
+  return { summary, collections };
+}
+
+// --- Multi-Wallet Bundles ---
+
+export interface BundleMemberSummary {
+  address: string;
+  input: string; // Address or ENS name as submitted
+  summary: PortfolioSummaryData;
+}
+
+function addCollectionPnl(
+  target: PortfolioCollectionPnl | undefined,
+  source: PortfolioCollectionPnl | undefined
+): PortfolioCollectionPnl | undefined {
+  if (!target || !source) return target ?? source;
+  return {
+    costBasisEth: target.costBasisEth + source.costBasisEth,
+    costedNftCount: target.costedNftCount + source.costedNftCount,
+    uncostedNftCount: target.uncostedNftCount + source.uncostedNftCount,
+    unrealizedPnlEth: target.unrealizedPnlEth + source.unrealizedPnlEth,
+    realizedPnlEth: target.realizedPnlEth + source.realizedPnlEth,
+    realizedSaleCount: target.realizedSaleCount + source.realizedSaleCount,
+  };
+}
+
+// Sums quantities of the same token id held by several wallets
+function mergeTokenQuantities(
+  target: PortfolioTokenQuantity[] | undefined,
+  source: PortfolioTokenQuantity[] | undefined
+): PortfolioTokenQuantity[] | undefined {
+  if (!target || !source) return target ?? source;
+  const quantities = new Map<string, number>();
+  [...target, ...source].forEach((token) =>
+    quantities.set(
+      token.identifier,
+      (quantities.get(token.identifier) ?? 0) + token.quantity
+    )
+  );
+  return Array.from(quantities, ([identifier, quantity]) => ({
+    identifier,
+    quantity,
+  }));
+}
+
+/**
+ * Merges per-wallet summaries into one PortfolioSummaryData.
+ * Breakdowns are combined by collection slug; each merged item lists which
+ * wallet holds what in `holdings`. Floor prices come from the most recent
+ * calculation (holdings and wallet totals included), and `calculatedAt` is
+ * the oldest member's timestamp.
+ */
+export function mergePortfolioSummaries(
+  members: BundleMemberSummary[]
+): PortfolioSummaryData {
+  // Newest first, so the first value seen for a collection is the freshest
+  const sorted = [...members].sort(
+    (a, b) =>
+      new Date(b.summary.calculatedAt).getTime() -
+      new Date(a.summary.calculatedAt).getTime()
+  );
+
+  const merged = new Map<string, PortfolioCollectionBreakdown>();
+  const wallets: PortfolioBundleWallet[] = [];
+  let totalValueEth = 0;
+  let totalValueUsd: number | undefined;
+  let nftCount = 0;
+  const pnlSummaries: PortfolioPnlSummary[] = [];
+
+  sorted.forEach(({ address, input, summary }) => {
+    totalValueEth += summary.totalValueEth;
+    nftCount += summary.nftCount;
+    if (summary.totalValueUsd !== undefined) {
+      totalValueUsd = (totalValueUsd ?? 0) + summary.totalValueUsd;
+    }
+    if (summary.pnl) pnlSummaries.push(summary.pnl);
+    wallets.push({
+      address,
+      input,
+      nftCount: summary.nftCount,
+      totalValueEth: summary.totalValueEth,
+      totalValueUsd: summary.totalValueUsd,
+      calculatedAt: summary.calculatedAt,
+    });
+
+    summary.breakdown.forEach((item) => {
+      const holding = {
+        address,
+        nftCount: item.nftCount,
+        totalValueEth: item.totalValueEth,
+        totalValueUsd: item.totalValueUsd,
+      };
+      const existing = merged.get(item.slug);
+      if (!existing) {
+        merged.set(item.slug, { ...item, holdings: [holding] });
+        return;
+      }
+      existing.nftCount += item.nftCount;
+      // Re-value at the freshest floor so all wallets use the same price
+      existing.totalValueEth = existing.floorPriceEth * existing.nftCount;
+      if (existing.floorPriceUsd !== undefined) {
+        existing.totalValueUsd = existing.floorPriceUsd * existing.nftCount;
+      }
+      if (existing.exceedsDailyVolume !== undefined) {
+        existing.exceedsDailyVolume = isBeyondDailyVolume(existing);
+      }
+      existing.pnl = addCollectionPnl(existing.pnl, item.pnl);
+      existing.tokens = mergeTokenQuantities(existing.tokens, item.tokens);
+      existing.holdings?.push(holding);
+    });
+  });
+
+  const breakdown = Array.from(merged.values()).sort(
+    (a, b) => b.totalValueEth - a.totalValueEth
+  );
+
+  // Holdings and wallet totals use the same floor as their collection row,
+  // so they add up to the bundle totals
+  const walletValues = new Map<string, { eth: number; usd: number }>();
+  breakdown.forEach((item) => {
+    item.holdings?.forEach((holding) => {
+      holding.totalValueEth = item.floorPriceEth * holding.nftCount;
+      holding.totalValueUsd =
+        item.floorPriceUsd !== undefined
+          ? item.floorPriceUsd * holding.nftCount
+          : undefined;
+      const value = walletValues.get(holding.address) ?? { eth: 0, usd: 0 };
+      value.eth += holding.totalValueEth;
+      value.usd += holding.totalValueUsd ?? 0;
+      walletValues.set(holding.address, value);
+    });
+  });
+  wallets.forEach((wallet) => {
+    const value = walletValues.get(wallet.address);
+    wallet.totalValueEth = value?.eth ?? 0;
+    if (wallet.totalValueUsd !== undefined) {
+      wallet.totalValueUsd = value?.usd ?? 0;
+    }
+  });
+
+  // Totals follow the re-valued breakdown rather than each wallet's own floors
+  totalValueEth = breakdown.reduce((sum, item) => sum + item.totalValueEth, 0);
+  if (totalValueUsd !== undefined) {
+    totalValueUsd = breakdown.reduce(
+      (sum, item) => sum + (item.totalValueUsd ?? 0),
+      0
+    );
+  }
+
+  const oldestCalculatedAt = sorted[sorted.length - 1].summary.calculatedAt;
+  const combined: PortfolioSummaryData = {
+    totalValueEth,
+    totalValueUsd,
+    nftCount,
+    collectionCount: merged.size,
+    breakdown,
+    calculatedAt: oldestCalculatedAt,
+    ethPriceUsd: sorted[0].summary.ethPriceUsd,
+    wallets,
+    ...summarizePricingCoverage(breakdown),
+    risk: calculatePortfolioRisk(breakdown),
+  };
+
+  // Only report PnL totals when every wallet has them
+  if (pnlSummaries.length === sorted.length) {
+    combined.pnl = pnlSummaries.reduce((acc, pnl) => ({
+      method: acc.method,
+      costBasisEth: acc.costBasisEth + pnl.costBasisEth,
+      unrealizedPnlEth: acc.unrealizedPnlEth + pnl.unrealizedPnlEth,
+      realizedPnlEth: acc.realizedPnlEth + pnl.realizedPnlEth,
+      totalPnlEth: acc.totalPnlEth + pnl.totalPnlEth,
+      uncostedNftCount: acc.uncostedNftCount + pnl.uncostedNftCount,
+      unpricedSaleCount: acc.unpricedSaleCount + pnl.unpricedSaleCount,
+    }));
+  }
+
+  return combined;
+}
+
+// --- Export ---
+
+const EXPORT_CSV_COLUMNS: (keyof PortfolioExportRow)[] = [
+  'contractAddress',
+  'tokenId',
+  'quantity',
+  'collectionSlug',
+  'collectionName',
+  'safelistStatus',
+  'pricingStatus',
+  'floorPriceEth',
+  'floorPriceFiat',
+  'valueEth',
+  'valueFiat',
+];
+
+/**
+ * Flattens a summary into one row per token, valued at the summary's floor
+ * prices and the current ETH rate for `currency`.
+ */
+export function buildPortfolioExport(
+  address: string,
+  summary: PortfolioSummaryData,
+  currency: FiatCurrency
+): PortfolioExportData {
+  const ethPrice = getEthPrices()[currency] ?? null;
+  const toFiat = (valueEth: number) =>
+    ethPrice !== null ? valueEth * ethPrice : null;
+
+  const rows: PortfolioExportRow[] = [];
+  summary.breakdown.forEach((item) => {
+    // Summaries cached before token ids were kept only have a count
+    const tokens = item.tokens ?? [
+      { identifier: null, quantity: item.nftCount },
+    ];
+    tokens.forEach((token) => {
+      const valueEth = item.floorPriceEth * token.quantity;
+      rows.push({
+        contractAddress: item.contractAddress,
+        tokenId: token.identifier,
+        quantity: token.quantity,
+        collectionSlug: item.slug,
+        collectionName: item.name,
+        safelistStatus: item.safelistStatus,
+        pricingStatus: item.pricingStatus,
+        floorPriceEth: item.floorPriceEth,
+        floorPriceFiat: toFiat(item.floorPriceEth),
+        valueEth,
+        valueFiat: toFiat(valueEth),
+      });
+    });
+  });
+
+  return {
+    address: address.toLowerCase(),
+    currency,
+    ethPrice,
+    calculatedAt: summary.calculatedAt,
+    exportedAt: new Date().toISOString(),
+    rows,
+  };
+}
+
+// Quotes a CSV field when needed and defuses spreadsheet formulas in names
+function toCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Renders export rows as CSV; fiat columns are suffixed with the currency code
+export function portfolioExportToCsv(data: PortfolioExportData): string {
+  const header = EXPORT_CSV_COLUMNS.map((column) =>
+    column.endsWith('Fiat')
+      ? `${column.slice(0, -'Fiat'.length)}${data.currency.toUpperCase()}`
+      : column
+  );
+  const lines = data.rows.map((row) =>
+    EXPORT_CSV_COLUMNS.map((column) => toCsvField(row[column])).join(',')
+  );
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -1,3 +1,11 @@
+import { FiatCurrency } from '../../services/priceFetcher';
+
+// How a collection's value was determined
+export type CollectionPricingStatus =
+  | 'priced' // Floor price found
+  | 'no_floor' // Collection data fetched but no floor price
+  | 'fetch_failed'; // Collection data could not be fetched
+
 export interface PortfolioCollectionBreakdown {
   slug: string;
   contractAddress: string;
@@ -9,7 +17,45 @@ export interface PortfolioCollectionBreakdown {
   // Add optional USD value if ETH price is available
   floorPriceUsd?: number;
   totalValueUsd?: number;
+  // Values in the requested `currency`, converted at read time
+  floorPriceFiat?: number;
+  totalValueFiat?: number;
   safelistStatus: string | null;
+  pricingStatus: CollectionPricingStatus;
+  // Collection stats from fetchCollectionData (absent when the fetch failed)
+  numOwners?: number;
+  totalSupply?: number;
+  totalVolumeEth?: number;
+  oneDayVolumeEth?: number;
+  exceedsDailyVolume?: boolean; // Holding's floor value > collection's 24h volume
+  liquidity?: PortfolioCollectionLiquidity; // valuation=liquidity_adjusted only
+  pnl?: PortfolioCollectionPnl; // Cost basis / PnL from stored sale events
+  holdings?: PortfolioWalletHolding[]; // Per-wallet split (bundle summaries only)
+  tokens?: PortfolioTokenQuantity[]; // Held quantity per token id
+}
+
+// Units held of one token (always 1 for ERC-721, balance for ERC-1155)
+export interface PortfolioTokenQuantity {
+  identifier: string;
+  quantity: number;
+}
+
+// One wallet's share of a collection in a bundle summary
+export interface PortfolioWalletHolding {
+  address: string;
+  nftCount: number;
+  totalValueEth: number;
+  totalValueUsd?: number;
+}
+
+// One wallet's totals in a bundle summary
+export interface PortfolioBundleWallet {
+  address: string;
+  input: string; // Address or ENS name as submitted
+  nftCount: number;
+  totalValueEth: number;
+  totalValueUsd?: number;
+  calculatedAt: string;
 }
 
 export interface PortfolioSummaryData {
@@ -17,9 +63,131 @@ export interface PortfolioSummaryData {
   totalValueUsd?: number; // Optional based on ETH price availability
   nftCount: number;
   collectionCount: number;
+  pricedNftCount: number; // NFTs in collections with a floor price
+  coveragePercent: number; // pricedNftCount / nftCount * 100 (100 when empty)
+  failedCollections: string[]; // Slugs whose collection data could not be fetched
   breakdown: PortfolioCollectionBreakdown[];
   calculatedAt: string; // ISO timestamp of calculation
   ethPriceUsd?: number; // ETH price used for USD calculation
+  pnl?: PortfolioPnlSummary; // Portfolio-wide PnL (FIFO) from stored sale events
+  wallets?: PortfolioBundleWallet[]; // Member wallets (bundle summaries only)
+  totalValueFiat?: number; // Total in the requested `currency`
+  currency?: PortfolioCurrencyRate; // Rate behind the *Fiat fields
+  hiddenCollections?: string[]; // Held slugs the user hid (not valued or counted)
+  filter?: PortfolioCollectionFilter; // Safelist filter the totals were computed with
+  excludedCollections?: string[]; // Slugs removed by `filter`
+  risk?: PortfolioRiskMetrics; // Concentration and liquidity risk of the breakdown
+  valuation?: PortfolioValuationMode; // Set when a non-default mode was requested
+  liquidityAdjustedValueEth?: number; // Sum of per-collection adjusted values
+  liquidityAdjustedValueUsd?: number;
+  liquidityAdjustedValueFiat?: number; // In the requested `currency`
+  holdingsChange?: PortfolioHoldingsChange; // Diff against the previous calculation
+}
+
+// What changed since the previous calculation and how much upstream work it saved
+export interface PortfolioHoldingsChange {
+  previousCalculation: boolean; // False on the first calculation for the address
+  addedCollections: string[];
+  removedCollections: string[];
+  changedCollections: string[]; // Token ids or quantities changed
+  refetchedCollections: number; // Collection data fetched upstream
+  reusedCollections: number; // Collection data reused from the collection:<slug> cache
+}
+
+// floor: floor price * count. liquidity_adjusted: also reports a discounted value
+export type PortfolioValuationMode = 'floor' | 'liquidity_adjusted';
+
+// How a collection's floor value was discounted for liquidity (scores are 0-1)
+export interface PortfolioCollectionLiquidity {
+  ownerScore: number | null; // numOwners / totalSupply, saturating at 50%
+  volumeScore: number | null; // totalVolume / (floor * totalSupply), capped at 1
+  salesScore: number; // Stored 30-day sales relative to units held, capped at 1
+  recentSaleCount: number; // Units sold in the last 30 days (stored ActivityEvent sales)
+  score: number; // Mean of the available scores
+  factor: number; // Multiplier applied to the floor value
+  adjustedValueEth: number;
+  adjustedValueUsd?: number;
+  adjustedValueFiat?: number; // In the requested `currency`
+}
+
+// Concentration/liquidity risk derived from breakdown values and collection stats.
+// Percentages are shares of totalValueEth (0-100).
+export interface PortfolioRiskMetrics {
+  herfindahlIndex: number; // Sum of squared % value shares per collection (0-10,000)
+  effectiveCollectionCount: number; // 10,000 / herfindahlIndex (0 when nothing is valued)
+  topCollectionPercent: number;
+  top3CollectionsPercent: number;
+  lowOwnerCountPercent: number; // Value in collections with < lowOwnerThreshold owners
+  lowVolumePercent: number; // Value in collections with < lowVolumeThresholdEth total volume
+  exceedsDailyVolumePercent: number; // Value in holdings worth more than the 24h volume
+  exceedsDailyVolumeCollections: string[]; // Slugs flagged `exceedsDailyVolume`
+  lowOwnerThreshold: number;
+  lowVolumeThresholdEth: number;
+}
+
+// Safelist-based filter modes for the summary endpoint
+export type PortfolioCollectionFilter =
+  | 'all'
+  | 'exclude_not_requested' // Drop collections OpenSea has never reviewed (typical spam)
+  | 'verified'; // Only verified/approved collections
+
+// ETH rate used to convert a summary into another fiat currency
+export interface PortfolioCurrencyRate {
+  code: FiatCurrency;
+  ethPrice: number | null; // null when no rate is available (Fiat fields omitted)
+  lastUpdated: string | null; // When priceFetcher fetched the rate
+  isDefault: boolean; // True when the built-in fallback rates are in use
+}
+
+export interface PortfolioHiddenCollectionsBody {
+  slugs: string[]; // Collection slugs to hide for the address
+}
+
+export interface PortfolioBundleRequestBody {
+  addresses: string[]; // Ethereum addresses and/or ENS names
+}
+
+// Per-wallet status while a bundle is still being calculated
+export interface PortfolioBundleWalletStatus {
+  address: string;
+  input: string;
+  status: 'ready' | 'calculating' | 'error';
+  progress?: any;
+}
+
+// Cost basis method used to match sales out against purchases
+export type PnlMethod = 'fifo' | 'average';
+
+export interface PortfolioCollectionPnl {
+  costBasisEth: number; // Purchase cost of held NFTs with a known purchase price
+  costedNftCount: number; // Held NFTs with a known purchase price
+  uncostedNftCount: number; // Held NFTs acquired by transfer/mint or in non-ETH tokens
+  unrealizedPnlEth: number; // Floor value of costed NFTs minus their cost basis
+  realizedPnlEth: number; // Sale proceeds minus cost basis for sales out of the wallet
+  realizedSaleCount: number; // Sales out matched (at least partly) to a purchase
+}
+
+export interface PortfolioPnlSummary {
+  method: PnlMethod;
+  costBasisEth: number;
+  unrealizedPnlEth: number;
+  realizedPnlEth: number;
+  totalPnlEth: number;
+  uncostedNftCount: number;
+  unpricedSaleCount: number; // Sales skipped because the payment token isn't ETH/WETH
+}
+
+export interface PortfolioPnlCollectionItem extends PortfolioCollectionPnl {
+  slug: string;
+  name: string | null;
+  nftCount: number; // Currently held (0 for fully sold collections)
+}
+
+export interface PortfolioPnlResponse {
+  address: string;
+  summary: PortfolioPnlSummary;
+  collections: PortfolioPnlCollectionItem[];
+  calculatedAt: string; // Timestamp of the summary the floor values come from
 }
 
 // Response type for the API endpoint
@@ -27,4 +195,185 @@ export interface CachedPortfolioResponse {
   status: 'ready' | 'calculating' | 'error';
   data: PortfolioSummaryData | null;
   message?: string; // Optional message (e.g., for errors)
+  stale?: boolean; // True when serving the last known summary during a recalculation
+  ageSeconds?: number; // Age of a stale summary
+}
+
+// Bucket size for the value-history endpoint ('raw' returns every snapshot)
+export type PortfolioHistoryInterval = 'raw' | 'hour' | 'day' | 'week';
+
+export interface PortfolioHistoryCollectionValue {
+  slug: string;
+  name: string | null;
+  nftCount: number;
+  totalValueEth: number;
+  totalValueUsd?: number;
+}
+
+export interface PortfolioHistoryPoint {
+  timestamp: string; // ISO timestamp of the snapshot (last one in the bucket)
+  totalValueEth: number;
+  totalValueUsd?: number;
+  nftCount: number;
+  collections: PortfolioHistoryCollectionValue[];
+}
+
+export interface PortfolioHistoryResponse {
+  address: string;
+  from: string;
+  to: string;
+  interval: PortfolioHistoryInterval;
+  points: PortfolioHistoryPoint[];
+}
+
+// File format for the export endpoint
+export type PortfolioExportFormat = 'csv' | 'json';
+
+// One exported row per token held (ERC-1155 rows carry their quantity)
+export interface PortfolioExportRow {
+  contractAddress: string;
+  tokenId: string | null; // null for cached summaries calculated before token ids were kept
+  quantity: number;
+  collectionSlug: string;
+  collectionName: string | null;
+  safelistStatus: string | null;
+  pricingStatus: CollectionPricingStatus;
+  floorPriceEth: number;
+  floorPriceFiat: number | null; // null when no rate is available for the currency
+  valueEth: number;
+  valueFiat: number | null;
+}
+
+export interface PortfolioExportData {
+  address: string;
+  currency: FiatCurrency;
+  ethPrice: number | null; // Rate used for the fiat columns
+  calculatedAt: string; // Timestamp of the summary the floors come from
+  exportedAt: string;
+  rows: PortfolioExportRow[];
+}
+
+// How often a watched wallet is recalculated
+export type PortfolioWatchSchedule =
+  | 'hourly'
+  | 'every_6_hours'
+  | 'daily'
+  | 'weekly';
+
+export interface PortfolioWatchRequestBody {
+  schedule: PortfolioWatchSchedule;
+  label?: string;
+}
+
+// A wallet recalculated on a schedule, independent of user traffic
+export interface PortfolioWatchedWallet {
+  address: string;
+  schedule: PortfolioWatchSchedule;
+  label: string | null;
+  lastRunAt: string | null; // Last time the schedule queued a recalculation
+  lastCalculatedAt: string | null; // Last completed calculation (any trigger)
+  nextRunAt: string | null; // From the BullMQ job scheduler
+}
+
+// Notifications a portfolio webhook can receive
+export type PortfolioWebhookEvent =
+  | 'portfolio.value_changed'
+  | 'portfolio.collections_changed';
+
+export interface PortfolioWebhookCreateBody {
+  address: string;
+  url: string;
+  secret?: string; // Generated when omitted (returned only on creation)
+  thresholdPercent?: number;
+  thresholdEth?: number;
+  notifyCollectionChanges?: boolean;
+}
+
+// Webhook subscription as returned by the API (secret omitted)
+export interface PortfolioWebhookInfo {
+  id: string;
+  address: string;
+  url: string;
+  thresholdPercent: number | null;
+  thresholdEth: number | null;
+  notifyCollectionChanges: boolean;
+  active: boolean;
+  createdAt: string;
+}
+
+// Body sent when totalValueEth moves past a threshold between two calculations
+export interface PortfolioValueChangedPayload {
+  event: 'portfolio.value_changed';
+  address: string;
+  previous: { totalValueEth: number; calculatedAt: string };
+  current: { totalValueEth: number; calculatedAt: string };
+  changeEth: number;
+  changePercent: number | null; // null when the previous value was 0
+}
+
+// Body sent when collections appear in or disappear from the breakdown
+export interface PortfolioCollectionsChangedPayload {
+  event: 'portfolio.collections_changed';
+  address: string;
+  added: string[]; // Collection slugs
+  removed: string[];
+  calculatedAt: string;
+}
+
+export type PortfolioWebhookPayload =
+  | PortfolioValueChangedPayload
+  | PortfolioCollectionsChangedPayload;
+
+export interface PortfolioWebhookDeliveryInfo {
+  id: string;
+  event: PortfolioWebhookEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  payload: PortfolioWebhookPayload;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+// How a collection's position changed between two snapshots
+export type PortfolioDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// Value change = floorEffectEth + holdingsEffectEth
+export interface PortfolioDiffCollection {
+  slug: string;
+  name: string | null;
+  status: PortfolioDiffStatus;
+  fromNftCount: number;
+  toNftCount: number;
+  nftCountChange: number;
+  fromFloorPriceEth: number;
+  toFloorPriceEth: number;
+  fromValueEth: number;
+  toValueEth: number;
+  valueChangeEth: number;
+  floorEffectEth: number; // Floor movement on the units held at `from`
+  holdingsEffectEth: number; // Units bought/sold, valued at the `to` floor
+}
+
+// The two snapshots a diff compares
+export interface PortfolioDiffEndpoint {
+  calculatedAt: string;
+  totalValueEth: number;
+  totalValueUsd?: number;
+  nftCount: number;
+  collectionCount: number;
+}
+
+export interface PortfolioDiffResponse {
+  address: string;
+  from: PortfolioDiffEndpoint;
+  to: PortfolioDiffEndpoint;
+  valueChangeEth: number;
+  floorEffectEth: number;
+  holdingsEffectEth: number;
+  nftCountChange: number;
+  addedCollections: string[];
+  removedCollections: string[];
+  collections: PortfolioDiffCollection[]; // Largest absolute value change first
 }
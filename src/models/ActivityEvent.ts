@@ -28,6 +28,11 @@ export interface IActivityEvent extends Document {
     // user?: { username: string; };
   };
   quantity: number;
+  price?: {
+    eth: number | null;
+    usd: number | null;
+    eur: number | null;
+  };
 }
 
 const ActivityEventSchema: Schema = new Schema<IActivityEvent>(
@@ -60,6 +65,16 @@ const ActivityEventSchema: Schema = new Schema<IActivityEvent>(
       address: { type: String, required: true, index: true, lowercase: true }, // Indexed and lowercase for queries
     },
     quantity: { type: Number, required: true },
+    price: {
+      // Sale value on the day of the sale (see priceSaleEvents in api/event/service.ts)
+      type: {
+        eth: { type: Number, default: null },
+        usd: { type: Number, default: null },
+        eur: { type: Number, default: null },
+      },
+      required: false,
+      default: undefined,
+    },
   },
   {
     timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
@@ -70,6 +85,46 @@ const ActivityEventSchema: Schema = new Schema<IActivityEvent>(
 // Compound index for common NFT lookup
 ActivityEventSchema.index({ 'nft.contract': 1, 'nft.identifier': 1 });
 
+// Account activity filters (see buildAccountEventQuery in api/event/service.ts).
+// Unfiltered and direction-less queries use one index per $or branch.
+// _id is the keyset tie-breaker for cursor pagination.
+for (const side of ['from_account.address', 'to_account.address']) {
+  ActivityEventSchema.index({ [side]: 1, created_date: -1, _id: -1 });
+  ActivityEventSchema.index({
+    [side]: 1,
+    event_type: 1,
+    created_date: -1,
+    _id: -1,
+  });
+  ActivityEventSchema.index({
+    [side]: 1,
+    'nft.collection': 1,
+    created_date: -1,
+    _id: -1,
+  });
+  ActivityEventSchema.index({
+    [side]: 1,
+    'nft.contract': 1,
+    created_date: -1,
+    _id: -1,
+  });
+}
+
+// Collection feeds (see buildCollectionEventQuery in api/event/service.ts)
+ActivityEventSchema.index({ 'nft.collection': 1, created_date: -1, _id: -1 });
+ActivityEventSchema.index({
+  'nft.collection': 1,
+  event_type: 1,
+  created_date: -1,
+  _id: -1,
+});
+ActivityEventSchema.index({
+  'nft.collection': 1,
+  'nft.contract': 1,
+  created_date: -1,
+  _id: -1,
+});
+
 // Ensure addresses are stored lowercase for consistent querying
 ActivityEventSchema.pre<IActivityEvent>('save', function (next) {
   if (this.from_account && this.from_account.address) {
@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Per-collection cursor of the collection event sync. Kept apart from the
+// stored events, which account and token syncs also write.
+export interface ICollectionEventSyncState extends Document {
+  slug: string; // OpenSea collection slug
+  syncedUpTo: number; // Start (ms) of the last successful sync; the next fetches newer events
+}
+
+const CollectionEventSyncStateSchema: Schema =
+  new Schema<ICollectionEventSyncState>(
+    {
+      slug: { type: String, required: true, unique: true },
+      syncedUpTo: { type: Number, required: true },
+    },
+    {
+      timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+      collection: 'collectionEventSyncState', // Explicitly set the collection name
+    }
+  );
+
+const CollectionEventSyncStateModel = mongoose.model<ICollectionEventSyncState>(
+  'CollectionEventSyncState',
+  CollectionEventSyncStateSchema
+);
+
+export default CollectionEventSyncStateModel;
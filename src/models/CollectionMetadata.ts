@@ -8,9 +8,11 @@ export interface ICollectionMetadata extends Document {
   imageUrl: string | null; // Field name consistency
   safelistStatus: string | null;
   totalSupply: number;
-  numOwners: number;
-  totalVolume: number;
-  marketCap: number;
+  // Collection stats; null when they could not be fetched
+  numOwners: number | null;
+  totalVolume: number | null;
+  oneDayVolume?: number | null; // Missing on documents cached before it was stored (refetched)
+  marketCap: number | null;
   // Timestamps will be added automatically by Mongoose
   createdAt?: Date;
   updatedAt?: Date;
@@ -24,9 +26,10 @@ const CollectionMetadataSchema: Schema = new Schema(
     imageUrl: { type: String, default: null }, // Match interface field name
     safelistStatus: { type: String, default: null }, // Match interface field name
     totalSupply: { type: Number, default: 0 }, // Match interface field name
-    numOwners: { type: Number, default: 0 }, // Match interface field name
-    totalVolume: { type: Number, default: 0 }, // Match interface field name
-    marketCap: { type: Number, default: 0 }, // Match interface field name
+    numOwners: { type: Number, default: null }, // Match interface field name
+    totalVolume: { type: Number, default: null }, // Match interface field name
+    oneDayVolume: { type: Number, default: null }, // Match interface field name
+    marketCap: { type: Number, default: null }, // Match interface field name
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt
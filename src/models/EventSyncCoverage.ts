@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Time range (ms) whose OpenSea events were fetched by one sync or backfill run.
+// `from` moves back as the run pages into older events; `to` is fixed.
+// Closed ranges (active: false) are merged together when a run finishes.
+export interface ICoveredRange {
+  runId: string;
+  from: number;
+  to: number;
+  active: boolean; // Still being extended by its run
+}
+
+// Where an interrupted backfill resumes (the gap being walked and its cursor)
+export interface IBackfillCheckpoint {
+  state: 'idle' | 'running' | 'completed' | 'failed';
+  runId: string | null;
+  gapFrom: number | null;
+  gapTo: number | null;
+  cursor: string | null; // OpenSea `next` cursor for the following page
+  pagesFetched: number;
+  eventsUpserted: number;
+  lastError: string | null;
+  checkpointAt: Date | null;
+}
+
+// Per-account record of which parts of the event history are stored
+export interface IEventSyncCoverage extends Document {
+  address: string; // Lowercase wallet address
+  ranges: ICoveredRange[]; // Active runs stay separate until they finish
+  rangesVersion: number; // Bumped on every range write; guards merging
+  backfill: IBackfillCheckpoint;
+}
+
+const EventSyncCoverageSchema: Schema = new Schema<IEventSyncCoverage>(
+  {
+    address: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+    },
+    ranges: {
+      type: [
+        {
+          _id: false,
+          runId: { type: String, required: true },
+          from: { type: Number, required: true },
+          to: { type: Number, required: true },
+          active: { type: Boolean, default: false },
+        },
+      ],
+      default: [],
+    },
+    rangesVersion: { type: Number, default: 0 },
+    backfill: {
+      state: {
+        type: String,
+        enum: ['idle', 'running', 'completed', 'failed'],
+        default: 'idle',
+      },
+      runId: { type: String, default: null },
+      gapFrom: { type: Number, default: null },
+      gapTo: { type: Number, default: null },
+      cursor: { type: String, default: null },
+      pagesFetched: { type: Number, default: 0 },
+      eventsUpserted: { type: Number, default: 0 },
+      lastError: { type: String, default: null },
+      checkpointAt: { type: Date, default: null },
+    },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'eventSyncCoverage', // Explicitly set the collection name
+  }
+);
+
+const EventSyncCoverageModel = mongoose.model<IEventSyncCoverage>(
+  'EventSyncCoverage',
+  EventSyncCoverageSchema
+);
+
+export default EventSyncCoverageModel;
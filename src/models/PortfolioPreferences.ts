@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Per-wallet portfolio settings chosen by the user
+export interface IPortfolioPreferences extends Document {
+  address: string; // Lowercase wallet address
+  hiddenCollections: string[]; // Collection slugs left out of calculations
+}
+
+const PortfolioPreferencesSchema: Schema = new Schema<IPortfolioPreferences>(
+  {
+    address: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+    },
+    hiddenCollections: { type: [String], default: [] },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'portfolioPreferences', // Explicitly set the collection name
+  }
+);
+
+const PortfolioPreferencesModel = mongoose.model<IPortfolioPreferences>(
+  'PortfolioPreferences',
+  PortfolioPreferencesSchema
+);
+
+export default PortfolioPreferencesModel;
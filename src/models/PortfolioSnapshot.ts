@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Per-collection values captured at the time of the calculation
+export interface IPortfolioSnapshotCollection {
+  slug: string;
+  contractAddress: string;
+  name: string | null;
+  nftCount: number;
+  floorPriceEth: number;
+  totalValueEth: number;
+  totalValueUsd?: number;
+}
+
+// Interface matching PortfolioSummaryData in src/api/portfolio/types.ts
+export interface IPortfolioSnapshot extends Document {
+  address: string; // Lowercase wallet address
+  calculatedAt: Date;
+  totalValueEth: number;
+  totalValueUsd?: number;
+  ethPriceUsd?: number;
+  nftCount: number;
+  collectionCount: number;
+  collections: IPortfolioSnapshotCollection[];
+}
+
+const PortfolioSnapshotCollectionSchema =
+  new Schema<IPortfolioSnapshotCollection>(
+    {
+      slug: { type: String, required: true },
+      contractAddress: { type: String, required: true },
+      name: { type: String, default: null },
+      nftCount: { type: Number, required: true },
+      floorPriceEth: { type: Number, required: true },
+      totalValueEth: { type: Number, required: true },
+      totalValueUsd: { type: Number },
+    },
+    { _id: false } // Embedded rows don't need their own ids
+  );
+
+const PortfolioSnapshotSchema: Schema = new Schema<IPortfolioSnapshot>(
+  {
+    address: { type: String, required: true, lowercase: true },
+    calculatedAt: { type: Date, required: true },
+    totalValueEth: { type: Number, required: true },
+    totalValueUsd: { type: Number },
+    ethPriceUsd: { type: Number },
+    nftCount: { type: Number, required: true },
+    collectionCount: { type: Number, required: true },
+    collections: { type: [PortfolioSnapshotCollectionSchema], default: [] },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'portfolioSnapshots', // Explicitly set the collection name
+  }
+);
+
+// Compound index for time-range queries per wallet (history charts)
+PortfolioSnapshotSchema.index({ address: 1, calculatedAt: -1 });
+
+const PortfolioSnapshotModel = mongoose.model<IPortfolioSnapshot>(
+  'PortfolioSnapshot',
+  PortfolioSnapshotSchema
+);
+
+export default PortfolioSnapshotModel;
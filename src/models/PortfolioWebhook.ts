@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Subscription to value/collection changes of one wallet's portfolio
+export interface IPortfolioWebhook extends Document {
+  address: string; // Lowercase wallet address
+  url: string;
+  secret: string; // HMAC-SHA256 key for the delivery signature
+  thresholdPercent: number | null; // Notify when totalValueEth moves by at least this %
+  thresholdEth: number | null; // ...or by at least this many ETH
+  notifyCollectionChanges: boolean; // Notify when collections appear/disappear
+  active: boolean;
+  createdAt: Date; // Set by the timestamps option
+}
+
+const PortfolioWebhookSchema: Schema = new Schema<IPortfolioWebhook>(
+  {
+    address: { type: String, required: true, index: true, lowercase: true },
+    url: { type: String, required: true },
+    secret: { type: String, required: true },
+    thresholdPercent: { type: Number, default: null },
+    thresholdEth: { type: Number, default: null },
+    notifyCollectionChanges: { type: Boolean, default: false },
+    active: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'portfolioWebhooks', // Explicitly set the collection name
+  }
+);
+
+const PortfolioWebhookModel = mongoose.model<IPortfolioWebhook>(
+  'PortfolioWebhook',
+  PortfolioWebhookSchema
+);
+
+export default PortfolioWebhookModel;
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Fiat price of one payment token on one UTC day
+export interface ITokenPriceHistory extends Document {
+  symbol: string; // Uppercase token symbol (ETH, WETH, USDC, ...)
+  date: string; // UTC day, YYYY-MM-DD
+  usd: number;
+  eur: number;
+}
+
+const TokenPriceHistorySchema: Schema = new Schema<ITokenPriceHistory>(
+  {
+    symbol: { type: String, required: true, uppercase: true },
+    date: { type: String, required: true },
+    usd: { type: Number, required: true },
+    eur: { type: Number, required: true },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'tokenPriceHistory', // Explicitly set the collection name
+  }
+);
+
+// One price per token per day
+TokenPriceHistorySchema.index({ symbol: 1, date: 1 }, { unique: true });
+
+const TokenPriceHistoryModel = mongoose.model<ITokenPriceHistory>(
+  'TokenPriceHistory',
+  TokenPriceHistorySchema
+);
+
+export default TokenPriceHistoryModel;
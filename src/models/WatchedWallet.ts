@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Interface matching PortfolioWatchedWallet in src/api/portfolio/types.ts
+export interface IWatchedWallet extends Document {
+  address: string; // Lowercase wallet address
+  schedule: 'hourly' | 'every_6_hours' | 'daily' | 'weekly';
+  label?: string;
+  lastRunAt: Date | null; // Last time the schedule queued a recalculation
+  lastCalculatedAt: Date | null; // Last completed calculation (any trigger)
+}
+
+const WatchedWalletSchema: Schema = new Schema<IWatchedWallet>(
+  {
+    address: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+    },
+    schedule: {
+      type: String,
+      required: true,
+      enum: ['hourly', 'every_6_hours', 'daily', 'weekly'],
+    },
+    label: { type: String },
+    lastRunAt: { type: Date, default: null },
+    lastCalculatedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'watchedWallets', // Explicitly set the collection name
+  }
+);
+
+const WatchedWalletModel = mongoose.model<IWatchedWallet>(
+  'WatchedWallet',
+  WatchedWalletSchema
+);
+
+export default WatchedWalletModel;
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// One webhook notification and the outcome of its delivery attempts
+export interface IWebhookDelivery extends Document {
+  webhookId: Types.ObjectId;
+  address: string; // Lowercase wallet address
+  event: 'portfolio.value_changed' | 'portfolio.collections_changed';
+  payload: Record<string, unknown>; // Exact JSON body that is signed and sent
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null; // HTTP status of the last attempt
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date; // Set by the timestamps option
+}
+
+const WebhookDeliverySchema: Schema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PortfolioWebhook',
+      required: true,
+    },
+    address: { type: String, required: true, lowercase: true },
+    event: {
+      type: String,
+      required: true,
+      enum: ['portfolio.value_changed', 'portfolio.collections_changed'],
+    },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pending', 'delivered', 'failed'],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    responseStatus: { type: Number, default: null },
+    lastError: { type: String, default: null },
+    deliveredAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true, // Add createdAt and updatedAt timestamps managed by Mongoose
+    collection: 'webhookDeliveries', // Explicitly set the collection name
+  }
+);
+
+// Delivery log per webhook, newest first
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+
+const WebhookDeliveryModel = mongoose.model<IWebhookDelivery>(
+  'WebhookDelivery',
+  WebhookDeliverySchema
+);
+
+export default WebhookDeliveryModel;
@@ -19,8 +19,13 @@ import { env } from 'process';
 
 import { startPriceFetcher } from './services/priceFetcher';
 import { startGasFetcher } from './services/gasFetcher';
+import { seedPriceHistory } from './services/priceHistoryService';
+import { priceStoredSales } from './api/event/service';
 import './services/collectionFetcher';
 import './services/portfolioCalculatorService';
+import './services/portfolioWebhookService';
+import './services/eventSyncService';
+import './services/collectionEventSyncService';
 
 // --- Mongoose Connection Event Listeners ---
 mongoose.connection.on('connected', () => {
@@ -143,10 +148,15 @@ async function startServer() {
     // The 'connected' listener above will log success
 
     // Start background services that might rely on DB connection AFTER connecting
+    await seedPriceHistory(); // Before any sale is priced against the history
     startPriceFetcher();
+    priceStoredSales().catch((error) =>
+      console.error('[Server] Failed to price stored sales:', error)
+    );
     startGasFetcher();
     // collectionFetcher worker starts on import
     // portfolioCalculatorService worker starts on import
+    // portfolioWebhookService worker starts on import
 
     // Start listening for requests
     await server.listen({ port: Number(env.PORT) || 8080, host: '0.0.0.0' });
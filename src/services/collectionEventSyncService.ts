@@ -0,0 +1,130 @@
+import { Queue, Worker, Job } from 'bullmq';
+import dotenv from 'dotenv';
+
+import redisClient from '../lib/redis';
+import {
+  syncCollectionEvents,
+  getCollectionSyncCursor,
+} from '../api/event/service';
+
+dotenv.config();
+
+// --- Configuration & Constants ---
+const QUEUE_NAME = 'collection-event-sync-queue';
+const MAX_RETRIES_PER_JOB = 3;
+const INITIAL_RETRY_DELAY_MS = 30 * 1000;
+const MAX_CONCURRENT_SYNCS = 2; // Busy collections page a lot; leave OpenSea quota for account syncs
+
+// --- Job Data Interface ---
+interface CollectionSyncJobData {
+  slug: string; // OpenSea collection slug
+  latestKnownDate?: number | null; // Set by the first attempt
+}
+
+// --- BullMQ Queue Definition ---
+const collectionSyncQueue = new Queue<CollectionSyncJobData>(QUEUE_NAME, {
+  connection: redisClient,
+  defaultJobOptions: {
+    attempts: MAX_RETRIES_PER_JOB + 1,
+    backoff: {
+      type: 'exponential',
+      delay: INITIAL_RETRY_DELAY_MS,
+    },
+    removeOnComplete: { count: 500, age: 60 * 60 * 24 },
+    removeOnFail: { count: 1000, age: 60 * 60 * 24 * 7 },
+  },
+});
+
+// --- BullMQ Worker Definition ---
+
+const worker = new Worker<CollectionSyncJobData>(
+  QUEUE_NAME,
+  async (job: Job<CollectionSyncJobData>) => {
+    const { slug } = job.data;
+
+    let latestKnownDate = job.data.latestKnownDate;
+    if (latestKnownDate === undefined) {
+      // Pinned on the first attempt so retries fetch the same window
+      latestKnownDate = await getCollectionSyncCursor(slug);
+      await job.updateData({ ...job.data, latestKnownDate });
+    }
+
+    return syncCollectionEvents(slug, latestKnownDate, {
+      onPage: (progress) => job.updateProgress(progress),
+    });
+  },
+  {
+    connection: redisClient,
+    concurrency: MAX_CONCURRENT_SYNCS,
+  }
+);
+
+// --- Function to Add Jobs to the Queue ---
+
+// Queues a sync for the collection unless one is already waiting or running
+export async function addCollectionSyncJob(
+  slug: string
+): Promise<Job<CollectionSyncJobData> | null> {
+  const jobId = `collection:${slug}`; // Deduplicates syncs across replicas
+
+  const existingJob = await collectionSyncQueue.getJob(jobId);
+  if (existingJob) {
+    const state = await existingJob.getState();
+    if (['active', 'waiting', 'delayed'].includes(state)) {
+      console.log(
+        `[Collection Sync Queue] Job ${jobId} is already ${state}. Not adding a new one.`
+      );
+      return existingJob;
+    }
+    try {
+      await existingJob.remove();
+    } catch (removeError) {
+      console.error(
+        `[Collection Sync Queue WARN] Failed to remove job ${jobId} in state ${state}:`,
+        removeError
+      );
+    }
+  }
+
+  try {
+    const job = await collectionSyncQueue.add(QUEUE_NAME, { slug }, { jobId });
+    console.log(`[Collection Sync Queue] Added job ${jobId}.`);
+    return job;
+  } catch (error) {
+    console.error(
+      `[Collection Sync Queue Error] Failed to add job ${jobId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+// --- Worker Event Listeners ---
+worker.on('completed', (job: Job<CollectionSyncJobData>) => {
+  console.log(
+    `[Collection Sync Worker] Job ${job.id} (${job.data.slug}) completed.`
+  );
+});
+
+worker.on(
+  'failed',
+  (job: Job<CollectionSyncJobData> | undefined, error: Error) => {
+    if (job) {
+      console.error(
+        `[Collection Sync Worker] Job ${job.id} (${job.data.slug}) failed after ${job.attemptsMade} attempts: ${error.message}`
+      );
+    } else {
+      console.error(
+        `[Collection Sync Worker] A job failed but job data is undefined: ${error.message}`
+      );
+    }
+  }
+);
+
+worker.on('error', (err) => {
+  console.error('[Collection Sync Worker] Generic worker error:', err);
+});
+
+console.log(
+  '[Collection Sync Worker] Collection event sync worker service started.'
+);
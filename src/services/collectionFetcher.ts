@@ -70,6 +70,10 @@ const worker = new Worker<CollectionJobData>(
       const combinedData: CombinedCollectionData = await limit(() =>
         fetchCollectionDataUtil(slug, contractAddress)
       );
+      // Don't cache or store a failed floor price fetch as a 0 floor; retry
+      if (combinedData.fetch_failed) {
+        throw new Error(`Floor price fetch failed for ${slug}`);
+      }
 
       // --- Cache and DB Update ---
       const fetchedAt = new Date();
@@ -104,6 +108,7 @@ const worker = new Worker<CollectionJobData>(
             total_supply: combinedData.total_supply,
             num_owners: combinedData.num_owners,
             total_volume: combinedData.total_volume,
+            one_day_volume: combinedData.one_day_volume,
             market_cap: combinedData.market_cap,
             dataLastFetchedAt: fetchedAt,
           },
@@ -0,0 +1,459 @@
+import { Queue, Worker, Job, QueueEvents } from 'bullmq';
+import dotenv from 'dotenv';
+
+import redisClient from '../lib/redis';
+import {
+  syncAccountEvents,
+  getAccountSyncCursor,
+  backfillAccountEvents,
+  recordBackfillError,
+  syncTokenEvents,
+  EventSyncProgress,
+  MAX_PAGES_DEFAULT,
+} from '../api/event/service';
+import {
+  EventSyncState,
+  EventSyncStatus,
+  ProgressStreamMessage,
+  ChunkStreamMessage,
+} from '../api/event/types';
+
+dotenv.config();
+
+// --- Configuration & Constants ---
+const QUEUE_NAME = 'event-sync-queue';
+const STATUS_PREFIX = 'event:sync:status:';
+const STATUS_TTL_SECONDS = 60 * 60 * 24 * 7; // Keep the last sync's status for a week
+const MAX_RETRIES_PER_JOB = 3;
+const INITIAL_RETRY_DELAY_MS = 30 * 1000;
+const MAX_CONCURRENT_SYNCS = 3; // OpenSea rate limits are shared by all syncs
+const BACKFILL_JOB_NAME = 'backfill'; // Walks history backward through coverage gaps
+const BACKFILL_JOB_PREFIX = 'backfill:'; // Own job ID so a backfill can run beside a sync
+const TOKEN_JOB_NAME = 'token-sync'; // On-demand history of one NFT for provenance
+const TOKEN_JOB_PREFIX = 'token:';
+
+// --- Job Data Interface ---
+interface EventSyncJobData {
+  address: string; // Lowercase address (the contract for token syncs)
+  identifier?: string; // Token ID, token syncs only
+  latestKnownDate?: number | null; // Set by the first attempt
+}
+
+// --- BullMQ Queue Definition ---
+const eventSyncQueue = new Queue<EventSyncJobData>(QUEUE_NAME, {
+  connection: redisClient,
+  defaultJobOptions: {
+    attempts: MAX_RETRIES_PER_JOB + 1,
+    backoff: {
+      type: 'exponential',
+      delay: INITIAL_RETRY_DELAY_MS,
+    },
+    removeOnComplete: { count: 500, age: 60 * 60 * 24 },
+    removeOnFail: { count: 1000, age: 60 * 60 * 24 * 7 },
+  },
+});
+
+// --- BullMQ Queue Events (used to stream sync progress to clients) ---
+const eventSyncQueueEvents = new QueueEvents(QUEUE_NAME, {
+  connection: redisClient, // BullMQ duplicates the instance for its blocking reads
+});
+// Every open SSE stream adds listeners, so lift the default warning limit
+eventSyncQueueEvents.setMaxListeners(0);
+
+// --- Status Hash ---
+
+type StatusFields = Partial<Record<keyof EventSyncStatus, string | number>>;
+
+async function writeSyncStatus(
+  address: string,
+  fields: StatusFields
+): Promise<void> {
+  const key = `${STATUS_PREFIX}${address}`;
+  await redisClient.hset(key, fields);
+  await redisClient.expire(key, STATUS_TTL_SECONDS);
+}
+
+async function incrementSyncCounters(
+  address: string,
+  pages: number,
+  events: number
+): Promise<void> {
+  const key = `${STATUS_PREFIX}${address}`;
+  if (pages > 0) await redisClient.hincrby(key, 'pagesFetched', pages);
+  if (events > 0) await redisClient.hincrby(key, 'eventsUpserted', events);
+}
+
+export async function getEventSyncStatus(
+  address: string
+): Promise<EventSyncStatus> {
+  const fields = await redisClient.hgetall(
+    `${STATUS_PREFIX}${address.toLowerCase()}`
+  );
+  // Empty strings stand for null in the hash
+  const text = (value: string | undefined) => value || null;
+  return {
+    state: (fields.state as EventSyncState) || 'idle',
+    pagesFetched: Number(fields.pagesFetched) || 0,
+    eventsUpserted: Number(fields.eventsUpserted) || 0,
+    attempts: Number(fields.attempts) || 0,
+    lastError: text(fields.lastError),
+    queuedAt: text(fields.queuedAt),
+    startedAt: text(fields.startedAt),
+    finishedAt: text(fields.finishedAt),
+  };
+}
+
+// --- BullMQ Worker Definition ---
+
+const worker = new Worker<EventSyncJobData>(
+  QUEUE_NAME,
+  async (job: Job<EventSyncJobData>) => {
+    const { address } = job.data;
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+
+    if (job.name === TOKEN_JOB_NAME) {
+      return syncTokenEvents(address, job.data.identifier ?? '');
+    }
+
+    // Backfills keep their progress in the coverage checkpoint (Mongo)
+    if (job.name === BACKFILL_JOB_NAME) {
+      try {
+        return await backfillAccountEvents(address, {
+          onPage: (progress) => job.updateProgress(progress),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await recordBackfillError(address, message, attempt >= maxAttempts);
+        throw error; // Let BullMQ retry; the checkpoint makes it resume
+      }
+    }
+
+    let latestKnownDate = job.data.latestKnownDate;
+    if (latestKnownDate === undefined) {
+      // Pinned on the first attempt: OpenSea returns newest events first, so
+      // re-reading it after a partial sync would skip the older, unfetched pages
+      latestKnownDate = await getAccountSyncCursor(address);
+      await job.updateData({ ...job.data, latestKnownDate });
+    }
+
+    await writeSyncStatus(address, {
+      state: 'syncing',
+      attempts: attempt,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+    });
+
+    const startTime = Date.now();
+    // Share of the page budget, kept below 100 until the job completes
+    const percentageFor = (page: number) =>
+      Math.min(99, Math.round((page / MAX_PAGES_DEFAULT) * 100));
+
+    let reported: EventSyncProgress = { pagesFetched: 0, eventsUpserted: 0 };
+    try {
+      const result = await syncAccountEvents(address, latestKnownDate, {
+        onPage: async (progress, storedEvents) => {
+          await incrementSyncCounters(
+            address,
+            progress.pagesFetched - reported.pagesFetched,
+            progress.eventsUpserted - reported.eventsUpserted
+          );
+          reported = progress;
+
+          // Job progress doubles as the SSE feed: each update is a StreamMessage
+          if (storedEvents.length > 0) {
+            const chunk: ChunkStreamMessage = {
+              type: 'chunk',
+              events: storedEvents,
+              pageCount: progress.pagesFetched,
+              totalEvents: progress.eventsUpserted,
+              currentPage: progress.pagesFetched,
+              totalPages: MAX_PAGES_DEFAULT,
+              percentage: percentageFor(progress.pagesFetched),
+              elapsedTime: Date.now() - startTime,
+            };
+            await job.updateProgress(chunk);
+          }
+          const message: ProgressStreamMessage = {
+            type: 'progress',
+            message: `Fetched page ${progress.pagesFetched}.`,
+            currentPage: progress.pagesFetched,
+            totalPages: MAX_PAGES_DEFAULT,
+            percentage: percentageFor(progress.pagesFetched),
+            totalEventsSoFar: progress.eventsUpserted,
+            elapsedTime: Date.now() - startTime,
+          };
+          await job.updateProgress(message);
+        },
+        onRetry: async (retry) => {
+          const message: ProgressStreamMessage = {
+            type: 'progress',
+            message: `OpenSea responded with status ${retry.status} on page ${retry.page}. Retrying in ${Math.round(retry.delayMs / 1000)}s...`,
+            currentPage: retry.page,
+            totalPages: MAX_PAGES_DEFAULT,
+            percentage: percentageFor(retry.page - 1),
+            totalEventsSoFar: reported.eventsUpserted,
+            isRateLimited: true,
+            retryCount: retry.retryCount,
+            elapsedTime: Date.now() - startTime,
+          };
+          await job.updateProgress(message);
+        },
+      });
+      await writeSyncStatus(address, {
+        state: 'completed',
+        finishedAt: new Date().toISOString(),
+      });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const isFinalAttempt = attempt >= maxAttempts;
+      await writeSyncStatus(address, {
+        state: isFinalAttempt ? 'failed' : 'retrying',
+        lastError: message,
+        finishedAt: isFinalAttempt ? new Date().toISOString() : '',
+      });
+      if (!isFinalAttempt) {
+        const retryMessage: ProgressStreamMessage = {
+          type: 'progress',
+          message: `Attempt ${attempt}/${maxAttempts} failed: ${message} Retrying...`,
+          currentPage: reported.pagesFetched,
+          totalPages: MAX_PAGES_DEFAULT,
+          percentage: percentageFor(reported.pagesFetched),
+          totalEventsSoFar: reported.eventsUpserted,
+          retryCount: attempt,
+          elapsedTime: Date.now() - startTime,
+        };
+        await job.updateProgress(retryMessage);
+      }
+      throw error; // Let BullMQ retry with backoff
+    }
+  },
+  {
+    connection: redisClient,
+    concurrency: MAX_CONCURRENT_SYNCS,
+  }
+);
+
+// --- Function to Add Jobs to the Queue ---
+
+// Returns the job if it is still waiting or running; clears finished ones so
+// their ID can be reused
+async function getPendingJob(
+  jobId: string
+): Promise<Job<EventSyncJobData> | null> {
+  const existingJob = await eventSyncQueue.getJob(jobId);
+  if (!existingJob) return null;
+
+  const state = await existingJob.getState();
+  if (['active', 'waiting', 'delayed'].includes(state)) {
+    console.log(
+      `[Event Sync Queue] Job ${jobId} is already ${state}. Not adding a new one.`
+    );
+    return existingJob;
+  }
+  try {
+    await existingJob.remove();
+  } catch (removeError) {
+    console.error(
+      `[Event Sync Queue WARN] Failed to remove job ${jobId} in state ${state}:`,
+      removeError
+    );
+  }
+  return null;
+}
+
+// Queues a sync for the address unless one is already waiting or running
+export async function addEventSyncJob(
+  address: string
+): Promise<Job<EventSyncJobData> | null> {
+  const jobId = address; // Normalized address deduplicates syncs across replicas
+
+  const pendingJob = await getPendingJob(jobId);
+  if (pendingJob) return pendingJob;
+
+  // Reset before adding: the worker may start the job right away
+  const statusKey = `${STATUS_PREFIX}${address}`;
+  try {
+    await redisClient.del(statusKey);
+    await writeSyncStatus(address, {
+      state: 'queued',
+      pagesFetched: 0,
+      eventsUpserted: 0,
+      attempts: 0,
+      lastError: '',
+      queuedAt: new Date().toISOString(),
+    });
+    const job = await eventSyncQueue.add(QUEUE_NAME, { address }, { jobId });
+    console.log(`[Event Sync Queue] Added job ${jobId}.`);
+    return job;
+  } catch (error) {
+    console.error(
+      `[Event Sync Queue Error] Failed to add job ${jobId} for address ${address}:`,
+      error
+    );
+    await redisClient.del(statusKey).catch(() => undefined);
+    return null;
+  }
+}
+
+// Queues a backfill for the address unless one is already waiting or running
+export async function addEventBackfillJob(
+  address: string
+): Promise<Job<EventSyncJobData> | null> {
+  const jobId = `${BACKFILL_JOB_PREFIX}${address}`;
+
+  const pendingJob = await getPendingJob(jobId);
+  if (pendingJob) return pendingJob;
+
+  try {
+    const job = await eventSyncQueue.add(
+      BACKFILL_JOB_NAME,
+      { address },
+      { jobId }
+    );
+    console.log(`[Event Sync Queue] Added backfill job ${jobId}.`);
+    return job;
+  } catch (error) {
+    console.error(
+      `[Event Sync Queue Error] Failed to add backfill job ${jobId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Syncs one token's events and waits up to `timeoutMs` for the job. Returns
+ * 'pending' when it is still running after the wait and 'unavailable' when
+ * the queue can't take it; a failed sync is thrown.
+ */
+export async function syncTokenEventsAndWait(
+  contract: string,
+  identifier: string,
+  timeoutMs: number
+): Promise<'completed' | 'pending' | 'unavailable'> {
+  const jobId = `${TOKEN_JOB_PREFIX}${contract}:${identifier}`;
+
+  let job = await getPendingJob(jobId);
+  if (!job) {
+    try {
+      job = await eventSyncQueue.add(
+        TOKEN_JOB_NAME,
+        { address: contract, identifier },
+        // One attempt: the caller is waiting and can simply ask again
+        { jobId, attempts: 1 }
+      );
+    } catch (error) {
+      console.error(
+        `[Event Sync Queue Error] Failed to add token job ${jobId}:`,
+        error
+      );
+      return 'unavailable';
+    }
+  }
+
+  try {
+    await job.waitUntilFinished(eventSyncQueueEvents, timeoutMs);
+    return 'completed';
+  } catch (error) {
+    const state = await job.getState();
+    if (['active', 'waiting', 'delayed'].includes(state)) {
+      return 'pending'; // Wait timed out; the job keeps running
+    }
+    throw error;
+  }
+}
+
+// Listeners for a single address' sync job, used by the SSE stream endpoint
+export interface EventSyncJobListeners {
+  onProgress: (message: ProgressStreamMessage | ChunkStreamMessage) => void;
+  onCompleted: () => void;
+  onFailed: (reason: string) => void;
+}
+
+// Sync jobs report stream messages; backfill jobs report EventSyncProgress,
+// which must not reach a stream even if the job IDs ever line up
+function isStreamProgress(
+  data: number | object
+): data is ProgressStreamMessage | ChunkStreamMessage {
+  if (typeof data !== 'object' || data === null) return false;
+  const type = (data as { type?: unknown }).type;
+  return type === 'progress' || type === 'chunk';
+}
+
+// Subscribe to queue events for an address' sync job. Returns an unsubscribe function.
+export function subscribeToEventSyncJob(
+  address: string,
+  listeners: EventSyncJobListeners
+): () => void {
+  const jobId = address; // Job ID is the normalized address
+
+  const handleProgress = ({
+    jobId: id,
+    data,
+  }: {
+    jobId: string;
+    data: number | object;
+  }) => {
+    if (id === jobId && isStreamProgress(data)) listeners.onProgress(data);
+  };
+  const handleCompleted = ({ jobId: id }: { jobId: string }) => {
+    if (id === jobId) listeners.onCompleted();
+  };
+  const handleFailed = ({
+    jobId: id,
+    failedReason,
+  }: {
+    jobId: string;
+    failedReason: string;
+  }) => {
+    if (id === jobId) listeners.onFailed(failedReason);
+  };
+
+  eventSyncQueueEvents.on('progress', handleProgress);
+  eventSyncQueueEvents.on('completed', handleCompleted);
+  eventSyncQueueEvents.on('failed', handleFailed);
+
+  return () => {
+    eventSyncQueueEvents.off('progress', handleProgress);
+    eventSyncQueueEvents.off('completed', handleCompleted);
+    eventSyncQueueEvents.off('failed', handleFailed);
+  };
+}
+
+// --- Worker Event Listeners ---
+worker.on('completed', (job: Job<EventSyncJobData>, result: unknown) => {
+  console.log(
+    `[Event Sync Worker] Job ${job.id} (${job.data.address}) completed.`
+  );
+  // A backfill paused at its page budget continues in a new job
+  if (
+    job.name === BACKFILL_JOB_NAME &&
+    (result as { complete?: boolean } | undefined)?.complete === false
+  ) {
+    void addEventBackfillJob(job.data.address);
+  }
+});
+
+worker.on('failed', (job: Job<EventSyncJobData> | undefined, error: Error) => {
+  if (job) {
+    console.error(
+      `[Event Sync Worker] Job ${job.id} (${job.data.address}) failed after ${job.attemptsMade} attempts: ${error.message}`
+    );
+  } else {
+    console.error(
+      `[Event Sync Worker] A job failed but job data is undefined: ${error.message}`
+    );
+  }
+});
+
+worker.on('error', (err) => {
+  console.error('[Event Sync Worker] Generic worker error:', err);
+});
+
+eventSyncQueueEvents.on('error', (err) => {
+  console.error('[Event Sync Queue Events] Error:', err);
+});
+
+console.log('[Event Sync Worker] Event sync worker service started.');
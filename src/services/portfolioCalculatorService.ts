@@ -1,4 +1,4 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import IORedis from 'ioredis';
 import pLimit from 'p-limit';
 import dotenv from 'dotenv';
@@ -11,11 +11,24 @@ import {
   CombinedCollectionData,
 } from '../utils/collectionApi'; // Use the centralized fetcher & import CombinedCollectionData
 import { getEthPrices } from './priceFetcher'; // To get current ETH price for USD conversion
-import { getNftsByAccount } from '../api/nft/service'; // To fetch all NFTs
+import { getNftsByAccount, AccountNft } from '../api/nft/service'; // To fetch all NFTs
 import {
   PortfolioSummaryData,
   PortfolioCollectionBreakdown,
+  PortfolioTokenQuantity,
+  PortfolioHoldingsChange,
 } from '../api/portfolio/types'; // Types for the result
+import {
+  savePortfolioSnapshot,
+  calculatePortfolioPnl,
+  summarizePricingCoverage,
+  getHiddenCollections,
+  recordWatchedWalletRun,
+  getStalePortfolioSummary,
+  calculatePortfolioRisk,
+  isBeyondDailyVolume,
+} from '../api/portfolio/service'; // Value history, PnL & coverage
+import { queuePortfolioWebhooks } from './portfolioWebhookService'; // Value/collection change notifications
 
 dotenv.config();
 
@@ -23,10 +36,19 @@ dotenv.config();
 const QUEUE_NAME = 'portfolio-calculator-queue';
 const CACHE_PREFIX = 'portfolio:summary:';
 const CACHE_TTL_SECONDS = 60 * 60 * 4; // Cache portfolio summary for 4 hours
+const STALE_CACHE_PREFIX = 'portfolio:summary:stale:';
+const STALE_CACHE_TTL_SECONDS = 60 * 60 * 24 * 30; // Serve while revalidating for up to 30 days
 
 const MAX_CONCURRENT_COLLECTION_FETCH = 5; // Limit concurrent fetches to 5
 const MAX_RETRIES_PER_JOB = 2;
 const INITIAL_RETRY_DELAY_MS = 60 * 1000;
+const WATCH_JOB_NAME = 'scheduled-refresh'; // Jobs created by watched-wallet schedulers
+const WATCH_SCHEDULER_PREFIX = 'watch:';
+const HOLDINGS_CACHE_PREFIX = 'portfolio:holdings:'; // Holdings seen by the last calculation
+const HOLDINGS_CACHE_TTL_SECONDS = 60 * 60 * 24 * 30;
+const COLLECTION_CACHE_PREFIX = 'collection:'; // Shared with collectionFetcher & collection API
+const COLLECTION_CACHE_TTL_SECONDS = 60 * 60 * 4;
+const COLLECTION_REUSE_MAX_AGE_MS = 60 * 60 * 1000; // Reuse cached floors up to 1h old
 
 // --- Job Data Interface ---
 interface PortfolioJobData {
@@ -47,11 +69,18 @@ const portfolioQueue = new Queue<PortfolioJobData>(QUEUE_NAME, {
   },
 });
 
+// --- BullMQ Queue Events (used to stream job progress to clients) ---
+const portfolioQueueEvents = new QueueEvents(QUEUE_NAME, {
+  connection: redisClient, // BullMQ duplicates the instance for its blocking reads
+});
+// Every open SSE stream adds listeners, so lift the default warning limit
+portfolioQueueEvents.setMaxListeners(0);
+
 // --- BullMQ Worker Logic ---
 
 // Helper to fetch ALL NFTs for an address, handling pagination
-async function fetchAllNfts(address: string): Promise<any[]> {
-  let allNfts: any[] = [];
+async function fetchAllNfts(address: string): Promise<AccountNft[]> {
+  let allNfts: AccountNft[] = [];
   let nextCursor: string | null = null;
   let page = 1;
   const MAX_PAGES = 50; // Safety break to prevent infinite loops
@@ -92,6 +121,173 @@ async function fetchAllNfts(address: string): Promise<any[]> {
   return allNfts;
 }
 
+// Holdings of the last calculation, keyed by collection slug
+type HoldingsByCollection = Record<
+  string,
+  { contractAddress: string; tokens: PortfolioTokenQuantity[] }
+>;
+
+async function loadPreviousHoldings(
+  address: string
+): Promise<HoldingsByCollection | null> {
+  try {
+    const cached = await redisClient.get(`${HOLDINGS_CACHE_PREFIX}${address}`);
+    return cached ? (JSON.parse(cached) as HoldingsByCollection) : null;
+  } catch (error) {
+    console.warn(
+      `[Portfolio Worker] Failed to load previous holdings for ${address}. Treating all collections as new:`,
+      error
+    );
+    return null;
+  }
+}
+
+// Best effort: without it the next run simply refetches everything
+async function storeHoldings(
+  address: string,
+  holdings: HoldingsByCollection
+): Promise<void> {
+  try {
+    await redisClient.set(
+      `${HOLDINGS_CACHE_PREFIX}${address}`,
+      JSON.stringify(holdings),
+      'EX',
+      HOLDINGS_CACHE_TTL_SECONDS
+    );
+  } catch (error) {
+    console.warn(
+      `[Portfolio Worker] Failed to store holdings for ${address}:`,
+      error
+    );
+  }
+}
+
+// Order-insensitive comparison of two token lists
+function sameTokens(
+  a: PortfolioTokenQuantity[],
+  b: PortfolioTokenQuantity[]
+): boolean {
+  if (a.length !== b.length) return false;
+  const quantities = new Map(a.map((t) => [t.identifier, t.quantity]));
+  return b.every((t) => quantities.get(t.identifier) === t.quantity);
+}
+
+function diffHoldings(
+  previous: HoldingsByCollection | null,
+  current: HoldingsByCollection
+): Omit<PortfolioHoldingsChange, 'refetchedCollections' | 'reusedCollections'> {
+  const before = previous ?? {};
+  const addedCollections = Object.keys(current).filter((slug) => !before[slug]);
+  const removedCollections = Object.keys(before).filter(
+    (slug) => !current[slug]
+  );
+  const changedCollections = Object.keys(current).filter(
+    (slug) =>
+      before[slug] && !sameTokens(before[slug].tokens, current[slug].tokens)
+  );
+  return {
+    previousCalculation: previous !== null,
+    addedCollections,
+    removedCollections,
+    changedCollections,
+  };
+}
+
+// Cached collection data (collection:<slug>) if it was fetched recently enough
+// and its floor price was actually read
+async function getRecentCachedCollectionData(
+  slug: string
+): Promise<CombinedCollectionData | null> {
+  try {
+    const cached = await redisClient.get(`${COLLECTION_CACHE_PREFIX}${slug}`);
+    if (!cached) return null;
+    const data = JSON.parse(cached) as CombinedCollectionData & {
+      lastUpdated?: string;
+    };
+    const fetchedAt = data.lastUpdated ? Date.parse(data.lastUpdated) : NaN;
+    if (
+      isNaN(fetchedAt) ||
+      Date.now() - fetchedAt > COLLECTION_REUSE_MAX_AGE_MS ||
+      typeof data.floor_price !== 'number' ||
+      data.fetch_failed
+    ) {
+      return null;
+    }
+    return data;
+  } catch (error) {
+    console.warn(
+      `[Portfolio Worker] Failed to read cached collection data for ${slug}:`,
+      error
+    );
+    return null;
+  }
+}
+
+// Write-through so other wallets and the collection API reuse this fetch
+async function cacheCollectionData(
+  slug: string,
+  data: CombinedCollectionData
+): Promise<void> {
+  try {
+    await redisClient.set(
+      `${COLLECTION_CACHE_PREFIX}${slug}`,
+      JSON.stringify({
+        ...data,
+        lastUpdated: new Date().toISOString(),
+        source: 'portfolio-worker',
+      }),
+      'EX',
+      COLLECTION_CACHE_TTL_SECONDS
+    );
+  } catch (error) {
+    console.warn(
+      `[Portfolio Worker] Failed to cache collection data for ${slug}:`,
+      error
+    );
+  }
+}
+
+// Helper to store a finished summary: Redis cache for reads, MongoDB snapshot for history
+async function storePortfolioSummary(
+  address: string,
+  summary: PortfolioSummaryData
+): Promise<void> {
+  const cacheKey = `${CACHE_PREFIX}${address}`;
+  // Previous calculation (read before it's overwritten) for webhook comparisons
+  const previous = await getStalePortfolioSummary(address);
+  const serialized = JSON.stringify(summary);
+  await redisClient.set(cacheKey, serialized, 'EX', CACHE_TTL_SECONDS);
+  // Long-lived copy so the API can serve it while a recalculation runs
+  await redisClient.set(
+    `${STALE_CACHE_PREFIX}${address}`,
+    serialized,
+    'EX',
+    STALE_CACHE_TTL_SECONDS
+  );
+
+  try {
+    await savePortfolioSnapshot(address, summary);
+  } catch (snapshotError) {
+    // The cached summary is still valid, so don't fail (and retry) the whole job
+    console.error(
+      `[Portfolio Worker] Failed to save history snapshot for ${address}:`,
+      snapshotError
+    );
+  }
+
+  if (previous) {
+    try {
+      await queuePortfolioWebhooks(address, previous, summary);
+    } catch (webhookError) {
+      // Notifications are best effort; the summary itself is stored
+      console.error(
+        `[Portfolio Worker] Failed to queue webhooks for ${address}:`,
+        webhookError
+      );
+    }
+  }
+}
+
 const worker = new Worker<PortfolioJobData>(
   QUEUE_NAME,
   async (job: Job<PortfolioJobData>) => {
@@ -102,6 +298,25 @@ const worker = new Worker<PortfolioJobData>(
     // -------------------------------------------
 
     const { address } = job.data;
+
+    // Scheduler ticks only queue the regular job, so progress lookups and SSE
+    // streams (keyed by address) see scheduled runs too
+    if (job.name === WATCH_JOB_NAME) {
+      const queuedJob = await addPortfolioJob({ address });
+      if (!queuedJob) {
+        throw new Error(`Failed to queue scheduled refresh for ${address}`);
+      }
+      try {
+        await recordWatchedWalletRun(address, 'lastRunAt');
+      } catch (recordError) {
+        console.warn(
+          `[Portfolio Worker] Failed to record scheduled run for ${address}:`,
+          recordError
+        );
+      }
+      return;
+    }
+
     const startTime = Date.now();
     console.log(
       `[Portfolio Worker] Step 0: Processing job ${job.id} for address: ${address} (Attempt ${job.attemptsMade + 1}/${job.opts.attempts})`
@@ -141,15 +356,11 @@ const worker = new Worker<PortfolioJobData>(
           collectionCount: 0,
           breakdown: [],
           calculatedAt: new Date().toISOString(),
+          ...summarizePricingCoverage([]),
           ethPriceUsd: getEthPrices().usd ?? 0,
         };
-        const cacheKey = `${CACHE_PREFIX}${address}`;
-        await redisClient.set(
-          cacheKey,
-          JSON.stringify(emptySummary),
-          'EX',
-          CACHE_TTL_SECONDS
-        );
+        await storePortfolioSummary(address, emptySummary);
+        await storeHoldings(address, {});
         await job.updateProgress({
           step: 'completed',
           nftCount: 0,
@@ -162,13 +373,29 @@ const worker = new Worker<PortfolioJobData>(
         return;
       }
 
+      // User-hidden collections are skipped before any collection data is fetched
+      let hiddenSlugs = new Set<string>();
+      try {
+        hiddenSlugs = new Set(await getHiddenCollections(address));
+      } catch (prefsError) {
+        console.warn(
+          `[Portfolio Worker] Failed to load hidden collections for ${address}. Valuing all collections:`,
+          prefsError
+        );
+      }
+      const hiddenHeld = new Set<string>();
+
       // 2. Group NFTs by collection
       console.log(`[Portfolio Worker] Step 2: Grouping NFTs by collection`);
       const collectionsMap = new Map<
         string,
-        { slug: string; contractAddress: string; nfts: any[] }
+        { slug: string; contractAddress: string; nfts: AccountNft[] }
       >();
-      allNfts.forEach((nft: any) => {
+      allNfts.forEach((nft) => {
+        if (hiddenSlugs.has(nft.collection)) {
+          hiddenHeld.add(nft.collection);
+          return;
+        }
         if (nft.collection && nft.contract) {
           const key = nft.collection;
           if (!collectionsMap.has(key)) {
@@ -186,6 +413,29 @@ const worker = new Worker<PortfolioJobData>(
       console.log(
         `[Portfolio Worker] Found ${collectionCount} unique collections.`
       );
+
+      // Diff against the previous run: collections already held may reuse
+      // recently cached collection data instead of hitting upstream APIs
+      const currentHoldings: HoldingsByCollection = {};
+      uniqueCollections.forEach((col) => {
+        currentHoldings[col.slug] = {
+          contractAddress: col.contractAddress,
+          // ERC-1155 tokens can be held more than once, so keep quantities
+          tokens: col.nfts.map((nft) => ({
+            identifier: nft.identifier,
+            quantity: nft.quantity ?? 1,
+          })),
+        };
+      });
+      const holdingsDiff = diffHoldings(
+        await loadPreviousHoldings(address),
+        currentHoldings
+      );
+      const newSlugs = new Set(holdingsDiff.addedCollections);
+      let reusedCollectionCount = 0;
+      console.log(
+        `[Portfolio Worker] Holdings diff for ${address}: ${holdingsDiff.addedCollections.length} added, ${holdingsDiff.removedCollections.length} removed, ${holdingsDiff.changedCollections.length} changed collections.`
+      );
       await job.updateProgress({
         step: 'grouped_collections',
         nftCount: allNfts.length,
@@ -204,10 +454,19 @@ const worker = new Worker<PortfolioJobData>(
       const collectionDataPromises = uniqueCollections.map((col) =>
         limit(async () => {
           try {
-            const data = await fetchCollectionData(
-              col.slug,
-              col.contractAddress
-            );
+            let data = newSlugs.has(col.slug)
+              ? null
+              : await getRecentCachedCollectionData(col.slug);
+            if (data) {
+              reusedCollectionCount++;
+            } else {
+              data = await fetchCollectionData(col.slug, col.contractAddress);
+              if (data.fetch_failed) {
+                // Not cached; reported as 'fetch_failed' below
+                throw new Error('Floor price could not be fetched.');
+              }
+              await cacheCollectionData(col.slug, data);
+            }
             successfullyFetchedCounter++; // Increment counter on success
             // Update progress incrementally (e.g., every 5 successful fetches or if it's the last one)
             if (
@@ -293,7 +552,9 @@ const worker = new Worker<PortfolioJobData>(
       collectionsMap.forEach((colInfo, slug) => {
         const collectionData = collectionDataMap.get(slug);
         const floorPriceEth = collectionData?.floor_price ?? 0;
-        const nftCount = colInfo.nfts.length;
+        // Count units, not rows (ERC-1155 quantities)
+        const tokens = currentHoldings[slug].tokens;
+        const nftCount = tokens.reduce((sum, token) => sum + token.quantity, 0);
         const collectionValueEth = floorPriceEth * nftCount;
 
         totalValueEth += collectionValueEth;
@@ -314,14 +575,34 @@ const worker = new Worker<PortfolioJobData>(
             floorPriceEth: floorPriceEth,
             totalValueEth: collectionValueEth,
             safelistStatus: collectionData.safelist_status ?? null,
+            pricingStatus: floorPriceEth > 0 ? 'priced' : 'no_floor',
+            tokens: tokens,
+            // Unknown stats stay undefined so risk metrics skip them
+            numOwners: collectionData.num_owners ?? undefined,
+            totalSupply: collectionData.total_supply,
+            totalVolumeEth: collectionData.total_volume ?? undefined,
+            oneDayVolumeEth: collectionData.one_day_volume ?? undefined,
           };
+          breakdownItem.exceedsDailyVolume = isBeyondDailyVolume(breakdownItem);
           if (ethPriceUsd && floorPriceEth > 0) {
             breakdownItem.floorPriceUsd = floorPriceEth * ethPriceUsd;
             breakdownItem.totalValueUsd = collectionValueEth * ethPriceUsd;
           }
           breakdown.push(breakdownItem);
         } else {
-          // Logged failure during fetch
+          // Fetch failed (logged above): keep the NFTs visible as unpriced
+          breakdown.push({
+            slug: slug,
+            contractAddress: colInfo.contractAddress,
+            name: null,
+            imageUrl: null,
+            nftCount: nftCount,
+            floorPriceEth: 0,
+            totalValueEth: 0,
+            safelistStatus: null,
+            pricingStatus: 'fetch_failed',
+            tokens: tokens,
+          });
         }
       });
 
@@ -333,25 +614,57 @@ const worker = new Worker<PortfolioJobData>(
         collectionCount: collectionsMap.size, // Use actual size from map
         breakdown: breakdown,
         calculatedAt: new Date().toISOString(),
+        ...summarizePricingCoverage(breakdown),
+        risk: calculatePortfolioRisk(breakdown),
+        holdingsChange: {
+          ...holdingsDiff,
+          refetchedCollections: collectionCount - reusedCollectionCount,
+          reusedCollections: reusedCollectionCount,
+        },
       };
+      if (hiddenHeld.size > 0) {
+        summaryData.hiddenCollections = Array.from(hiddenHeld);
+      }
       if (ethPriceUsd) {
         summaryData.totalValueUsd = totalValueEth * ethPriceUsd;
         summaryData.ethPriceUsd = ethPriceUsd;
       }
+
+      // Attach cost basis / PnL from stored sale events (FIFO by default)
+      try {
+        const pnl = await calculatePortfolioPnl(address, breakdown);
+        const pnlBySlug = new Map(pnl.collections.map((c) => [c.slug, c]));
+        breakdown.forEach((item) => {
+          const colPnl = pnlBySlug.get(item.slug);
+          if (!colPnl) return;
+          item.pnl = {
+            costBasisEth: colPnl.costBasisEth,
+            costedNftCount: colPnl.costedNftCount,
+            uncostedNftCount: colPnl.uncostedNftCount,
+            unrealizedPnlEth: colPnl.unrealizedPnlEth,
+            realizedPnlEth: colPnl.realizedPnlEth,
+            realizedSaleCount: colPnl.realizedSaleCount,
+          };
+        });
+        summaryData.pnl = pnl.summary;
+      } catch (pnlError) {
+        // PnL is supplementary; keep the valuation even if events can't be read
+        console.warn(
+          `[Portfolio Worker] Failed to calculate PnL for ${address}:`,
+          pnlError instanceof Error ? pnlError.message : pnlError
+        );
+      }
       const calculationTime = Date.now();
       console.log(
         `[Portfolio Worker] Calculation logic finished in ${calculationTime - collectionFetchTime}ms`
       );
 
-      // 6. Store result in Redis cache
-      console.log(`[Portfolio Worker] Step 6: Storing result in cache`);
-      const cacheKey = `${CACHE_PREFIX}${address}`;
-      await redisClient.set(
-        cacheKey,
-        JSON.stringify(summaryData),
-        'EX',
-        CACHE_TTL_SECONDS
+      // 6. Store result in Redis cache and history snapshot
+      console.log(
+        `[Portfolio Worker] Step 6: Storing result in cache and history`
       );
+      await storePortfolioSummary(address, summaryData);
+      await storeHoldings(address, currentHoldings);
       const endTime = Date.now();
       console.log(
         `[Portfolio Worker] Calculation complete for ${address}. Stored summary in cache. Total time: ${endTime - startTime}ms`
@@ -447,9 +760,43 @@ export async function addPortfolioJob(
 }
 
 // Function to check job status and progress
+// --- Watched Wallet Schedules ---
+
+// Creates or updates the repeatable refresh for a watched address
+export async function scheduleWatchedWallet(
+  address: string,
+  everyMs: number
+): Promise<void> {
+  await portfolioQueue.upsertJobScheduler(
+    `${WATCH_SCHEDULER_PREFIX}${address}`,
+    { every: everyMs },
+    { name: WATCH_JOB_NAME, data: { address } }
+  );
+  console.log(
+    `[Portfolio Queue] Scheduled refresh for ${address} every ${everyMs / 1000}s.`
+  );
+}
+
+export async function unscheduleWatchedWallet(address: string): Promise<void> {
+  await portfolioQueue.removeJobScheduler(
+    `${WATCH_SCHEDULER_PREFIX}${address}`
+  );
+  console.log(`[Portfolio Queue] Removed scheduled refresh for ${address}.`);
+}
+
+// Next run of the address's schedule (ms timestamp), or null if not scheduled
+export async function getWatchedWalletNextRun(
+  address: string
+): Promise<number | null> {
+  const scheduler = await portfolioQueue.getJobScheduler(
+    `${WATCH_SCHEDULER_PREFIX}${address}`
+  );
+  return scheduler?.next ?? null;
+}
+
 export async function getPortfolioJob(
   address: string
-): Promise<{ status: string; progress: any } | null> {
+): Promise<{ status: string; progress: any; failedReason?: string } | null> {
   // Return type updated
   const jobId = address; // Assuming address is the Job ID
   const job = await portfolioQueue.getJob(jobId);
@@ -461,8 +808,55 @@ export async function getPortfolioJob(
   const state = await job.getState();
   const progress = job.progress; // Get the progress data
 
-  // Return both state and progress
-  return { status: state, progress: progress };
+  // Return both state and progress (plus why it failed, for failed jobs)
+  return { status: state, progress: progress, failedReason: job.failedReason };
+}
+
+// Listeners for a single address' job, used by the SSE stream endpoint
+export interface PortfolioJobListeners {
+  onProgress: (progress: any) => void;
+  onCompleted: () => void;
+  onFailed: (reason: string) => void;
+}
+
+// Subscribe to queue events for an address' job. Returns an unsubscribe function.
+export function subscribeToPortfolioJob(
+  address: string,
+  listeners: PortfolioJobListeners
+): () => void {
+  const jobId = address; // Job ID is the normalized address
+
+  const handleProgress = ({
+    jobId: id,
+    data,
+  }: {
+    jobId: string;
+    data: any;
+  }) => {
+    if (id === jobId) listeners.onProgress(data);
+  };
+  const handleCompleted = ({ jobId: id }: { jobId: string }) => {
+    if (id === jobId) listeners.onCompleted();
+  };
+  const handleFailed = ({
+    jobId: id,
+    failedReason,
+  }: {
+    jobId: string;
+    failedReason: string;
+  }) => {
+    if (id === jobId) listeners.onFailed(failedReason);
+  };
+
+  portfolioQueueEvents.on('progress', handleProgress);
+  portfolioQueueEvents.on('completed', handleCompleted);
+  portfolioQueueEvents.on('failed', handleFailed);
+
+  return () => {
+    portfolioQueueEvents.off('progress', handleProgress);
+    portfolioQueueEvents.off('completed', handleCompleted);
+    portfolioQueueEvents.off('failed', handleFailed);
+  };
 }
 
 // --- Worker Event Listeners ---
@@ -470,6 +864,16 @@ worker.on('completed', (job: Job<PortfolioJobData>) => {
   console.log(
     `[Portfolio Worker] Job ${job.id} (${job.data.address}) completed.`
   );
+  if (job.name !== WATCH_JOB_NAME) {
+    // No-op unless the address is watched
+    recordWatchedWalletRun(job.data.address, 'lastCalculatedAt').catch(
+      (recordError) =>
+        console.warn(
+          `[Portfolio Worker] Failed to record calculation time for ${job.data.address}:`,
+          recordError
+        )
+    );
+  }
 });
 
 worker.on('failed', (job: Job<PortfolioJobData> | undefined, error: Error) => {
@@ -490,6 +894,10 @@ worker.on('error', (err) => {
   console.error('[Portfolio Worker] Generic worker error:', err);
 });
 
+portfolioQueueEvents.on('error', (err) => {
+  console.error('[Portfolio Queue Events] Error:', err);
+});
+
 console.log('[Portfolio Worker] Portfolio calculation worker service started.');
 
 // Ensure this service is imported/started in server.ts
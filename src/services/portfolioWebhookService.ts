@@ -0,0 +1,253 @@
+import { Queue, Worker, Job } from 'bullmq';
+import axios from 'axios';
+import crypto from 'crypto';
+import https from 'https';
+import dotenv from 'dotenv';
+
+import redisClient from '../lib/redis';
+import PortfolioWebhookModel, {
+  IPortfolioWebhook,
+} from '../models/PortfolioWebhook';
+import WebhookDeliveryModel from '../models/WebhookDelivery';
+import { checkWebhookUrl, publicOnlyLookup } from '../utils/webhookUrl';
+import {
+  PortfolioSummaryData,
+  PortfolioWebhookPayload,
+} from '../api/portfolio/types';
+
+dotenv.config();
+
+// --- Configuration & Constants ---
+const QUEUE_NAME = 'portfolio-webhook-queue';
+const MAX_RETRIES_PER_DELIVERY = 5;
+const INITIAL_RETRY_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m, 8m
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_CONCURRENT_DELIVERIES = 5;
+const SIGNATURE_HEADER = 'X-Portfolio-Signature';
+const TIMESTAMP_HEADER = 'X-Portfolio-Timestamp';
+
+// Re-checks the resolved address on connect, so a host re-pointed at a
+// private address after registration is refused
+const deliveryAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+// --- Job Data Interface ---
+interface WebhookJobData {
+  deliveryId: string;
+}
+
+// --- BullMQ Queue Definition ---
+const webhookQueue = new Queue<WebhookJobData>(QUEUE_NAME, {
+  connection: redisClient,
+  defaultJobOptions: {
+    attempts: MAX_RETRIES_PER_DELIVERY + 1,
+    backoff: {
+      type: 'exponential',
+      delay: INITIAL_RETRY_DELAY_MS,
+    },
+    removeOnComplete: { count: 1000, age: 60 * 60 * 24 },
+    removeOnFail: { count: 5000, age: 60 * 60 * 24 * 7 },
+  },
+});
+
+// --- Change Detection ---
+
+// Events a webhook should receive for one recalculation (empty when none)
+export function evaluatePortfolioChange(
+  webhook: Pick<
+    IPortfolioWebhook,
+    'address' | 'thresholdPercent' | 'thresholdEth' | 'notifyCollectionChanges'
+  >,
+  previous: PortfolioSummaryData,
+  current: PortfolioSummaryData
+): PortfolioWebhookPayload[] {
+  const payloads: PortfolioWebhookPayload[] = [];
+
+  const changeEth = current.totalValueEth - previous.totalValueEth;
+  const changePercent =
+    previous.totalValueEth > 0
+      ? (changeEth / previous.totalValueEth) * 100
+      : null;
+  const passesEth =
+    webhook.thresholdEth !== null &&
+    Math.abs(changeEth) >= webhook.thresholdEth;
+  const passesPercent =
+    webhook.thresholdPercent !== null &&
+    changePercent !== null &&
+    Math.abs(changePercent) >= webhook.thresholdPercent;
+  if (changeEth !== 0 && (passesEth || passesPercent)) {
+    payloads.push({
+      event: 'portfolio.value_changed',
+      address: webhook.address,
+      previous: {
+        totalValueEth: previous.totalValueEth,
+        calculatedAt: previous.calculatedAt,
+      },
+      current: {
+        totalValueEth: current.totalValueEth,
+        calculatedAt: current.calculatedAt,
+      },
+      changeEth,
+      changePercent,
+    });
+  }
+
+  if (webhook.notifyCollectionChanges) {
+    const previousSlugs = new Set(previous.breakdown.map((item) => item.slug));
+    const currentSlugs = new Set(current.breakdown.map((item) => item.slug));
+    const added = [...currentSlugs].filter((slug) => !previousSlugs.has(slug));
+    const removed = [...previousSlugs].filter(
+      (slug) => !currentSlugs.has(slug)
+    );
+    if (added.length > 0 || removed.length > 0) {
+      payloads.push({
+        event: 'portfolio.collections_changed',
+        address: webhook.address,
+        added,
+        removed,
+        calculatedAt: current.calculatedAt,
+      });
+    }
+  }
+
+  return payloads;
+}
+
+/**
+ * Compares two consecutive calculations against the address's active
+ * webhooks and queues a logged, signed delivery for every triggered event.
+ */
+export async function queuePortfolioWebhooks(
+  address: string,
+  previous: PortfolioSummaryData,
+  current: PortfolioSummaryData
+): Promise<number> {
+  const webhooks = await PortfolioWebhookModel.find({
+    address: address.toLowerCase(),
+    active: true,
+  });
+
+  let queued = 0;
+  for (const webhook of webhooks) {
+    const payloads = evaluatePortfolioChange(webhook, previous, current);
+    for (const payload of payloads) {
+      const delivery = await WebhookDeliveryModel.create({
+        webhookId: webhook._id,
+        address: webhook.address,
+        event: payload.event,
+        payload,
+      });
+      const deliveryId = String(delivery._id);
+      await webhookQueue.add(QUEUE_NAME, { deliveryId }, { jobId: deliveryId });
+      queued++;
+    }
+  }
+
+  if (queued > 0) {
+    console.log(
+      `[Portfolio Webhooks] Queued ${queued} deliveries for ${address}.`
+    );
+  }
+  return queued;
+}
+
+// Receivers verify: HMAC-SHA256(secret, `${timestamp}.${body}`) as hex
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+// --- BullMQ Worker Definition ---
+
+const worker = new Worker<WebhookJobData>(
+  QUEUE_NAME,
+  async (job: Job<WebhookJobData>) => {
+    const { deliveryId } = job.data;
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+
+    const delivery = await WebhookDeliveryModel.findById(deliveryId);
+    if (!delivery) {
+      console.warn(
+        `[Portfolio Webhooks] Delivery ${deliveryId} not found. Skipping.`
+      );
+      return;
+    }
+    const webhook = await PortfolioWebhookModel.findById(delivery.webhookId);
+    if (!webhook || !webhook.active) {
+      // Deleted or disabled after queuing: nothing to retry
+      delivery.status = 'failed';
+      delivery.lastError = 'Webhook was deleted or disabled.';
+      await delivery.save();
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    delivery.attempts = attempt;
+
+    try {
+      const urlError = await checkWebhookUrl(webhook.url);
+      if (urlError) throw new Error(urlError);
+
+      const response = await axios.post(webhook.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Portfolio-Event': delivery.event,
+          'X-Portfolio-Delivery': deliveryId,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+        },
+        timeout: DELIVERY_TIMEOUT_MS,
+        httpsAgent: deliveryAgent,
+        proxy: false, // The agent must connect to the receiver itself
+        maxRedirects: 0,
+        validateStatus: () => true, // Status is handled below
+      });
+      delivery.responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Receiver responded with status ${response.status}`);
+      }
+      delivery.status = 'delivered';
+      delivery.lastError = null;
+      delivery.deliveredAt = new Date();
+      await delivery.save();
+      console.log(
+        `[Portfolio Webhooks] Delivered ${deliveryId} (${delivery.event}) to ${webhook.url}.`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      delivery.lastError = message;
+      delivery.status = attempt >= maxAttempts ? 'failed' : 'pending';
+      await delivery.save();
+      console.warn(
+        `[Portfolio Webhooks] Delivery ${deliveryId} attempt ${attempt}/${maxAttempts} failed: ${message}`
+      );
+      throw error; // Let BullMQ retry with backoff
+    }
+  },
+  {
+    connection: redisClient,
+    concurrency: MAX_CONCURRENT_DELIVERIES,
+  }
+);
+
+// --- Worker Event Listeners ---
+worker.on('failed', (job: Job<WebhookJobData> | undefined, error: Error) => {
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    console.error(
+      `[Portfolio Webhooks] Delivery ${job.data.deliveryId} failed permanently: ${error.message}`
+    );
+  }
+});
+
+worker.on('error', (err) => {
+  console.error('[Portfolio Webhooks] Generic worker error:', err);
+});
+
+console.log('[Portfolio Webhooks] Webhook delivery worker service started.');
@@ -3,9 +3,27 @@ dotenv.config();
 
 import axios from 'axios';
 import { env } from 'process';
+import {
+  PRICED_TOKENS,
+  recordDailyPrices,
+  toPriceDay,
+} from './priceHistoryService';
+import { priceStoredSales } from '../api/event/service';
 
-const COINGECKO_API_URL =
-  'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd,eur,gbp,jpy,aud,cad,cny';
+// Fiat currencies ETH is priced in (CoinGecko vs_currencies)
+export const SUPPORTED_CURRENCIES = [
+  'usd',
+  'eur',
+  'gbp',
+  'jpy',
+  'aud',
+  'cad',
+  'cny',
+] as const;
+export type FiatCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+// ETH plus the payment tokens whose daily prices are recorded for sale pricing
+const COINGECKO_API_URL = `https://api.coingecko.com/api/v3/simple/price?ids=${Object.values(PRICED_TOKENS).join(',')}&vs_currencies=${SUPPORTED_CURRENCIES.join(',')}`;
 const COINGECKO_API_KEY = env.COINGECKO_API_KEY;
 const FETCH_INTERVAL_MS = 1 * 60 * 1000;
 const MAX_RETRIES = 5;
@@ -22,7 +40,7 @@ const DEFAULT_ETH_PRICES = {
   cny: 21000,
 };
 
-interface EthPrices {
+export interface EthPrices {
   usd?: number;
   eur?: number;
   gbp?: number;
@@ -39,6 +57,7 @@ let intervalId: NodeJS.Timeout | null = null;
 let retryTimeoutId: NodeJS.Timeout | null = null;
 let retryCount = 0;
 let isFetching = false;
+let lastRecordedDay: string | null = null;
 
 async function fetchEthPrices(isRetry: boolean = false) {
   if (isFetching && !isRetry) {
@@ -91,6 +110,22 @@ async function fetchEthPrices(isRetry: boolean = false) {
       console.log(
         `[Price Service] Updated ETH prices. USD: ${currentEthPrices.usd}, LastUpdated: ${currentEthPrices.lastUpdated}`
       );
+
+      // A failed write must not trigger a refetch; the next poll records again
+      recordDailyPrices(response.data)
+        .then(() => {
+          // Sales of the day stored before its first price get valued now
+          const today = toPriceDay(Date.now());
+          if (today === lastRecordedDay) return;
+          lastRecordedDay = today;
+          return priceStoredSales(Date.parse(today));
+        })
+        .catch((error) =>
+          console.error(
+            '[Price Service] Failed to record daily prices or re-price sales:',
+            error.message || error
+          )
+        );
     } else {
       console.warn(
         'Received unexpected data format from CoinGecko:',
@@ -0,0 +1,132 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import { promises as fs } from 'fs';
+import { env } from 'process';
+import TokenPriceHistoryModel from '../models/TokenPriceHistory';
+
+// Payment tokens with a daily price history, by symbol (CoinGecko coin ids)
+export const PRICED_TOKENS: Record<string, string> = {
+  ETH: 'ethereum',
+  WETH: 'weth',
+  USDC: 'usd-coin',
+  DAI: 'dai',
+  APE: 'apecoin',
+  BLUR: 'blur',
+};
+
+const SEED_FILE_PATH = env.PRICE_HISTORY_SEED_FILE;
+const SEED_BATCH_SIZE = 1000;
+
+export interface DailyPrice {
+  usd: number;
+  eur: number;
+}
+
+interface PriceHistoryEntry extends DailyPrice {
+  symbol: string;
+  date: string;
+}
+
+// UTC day (YYYY-MM-DD) of a timestamp in ms
+export function toPriceDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+const isPriceHistoryEntry = (entry: any): entry is PriceHistoryEntry =>
+  entry &&
+  typeof entry.symbol === 'string' &&
+  typeof entry.date === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(entry.date) &&
+  typeof entry.usd === 'number' &&
+  typeof entry.eur === 'number';
+
+async function upsertPriceEntries(entries: PriceHistoryEntry[]) {
+  if (entries.length === 0) return;
+  await TokenPriceHistoryModel.bulkWrite(
+    entries.map((entry) => ({
+      updateOne: {
+        filter: { symbol: entry.symbol.toUpperCase(), date: entry.date },
+        update: { $set: { usd: entry.usd, eur: entry.eur } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+}
+
+// Loads the price history file named by PRICE_HISTORY_SEED_FILE: a JSON array
+// of { symbol, date: 'YYYY-MM-DD', usd, eur }. Days in the file overwrite
+// stored prices, so re-running it is safe.
+export async function seedPriceHistory(): Promise<number> {
+  if (!SEED_FILE_PATH) {
+    console.log(
+      '[Price History] PRICE_HISTORY_SEED_FILE is not set. Skipping seed.'
+    );
+    return 0;
+  }
+
+  try {
+    const parsed = JSON.parse(await fs.readFile(SEED_FILE_PATH, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error('Seed file must contain a JSON array');
+    }
+    const entries = parsed.filter(isPriceHistoryEntry);
+    if (entries.length < parsed.length) {
+      console.warn(
+        `[Price History] Skipping ${parsed.length - entries.length} malformed seed entries.`
+      );
+    }
+
+    for (let i = 0; i < entries.length; i += SEED_BATCH_SIZE) {
+      await upsertPriceEntries(entries.slice(i, i + SEED_BATCH_SIZE));
+    }
+    console.log(
+      `[Price History] Seeded ${entries.length} daily prices from ${SEED_FILE_PATH}.`
+    );
+    return entries.length;
+  } catch (error: any) {
+    console.error(
+      `[Price History] Failed to seed from ${SEED_FILE_PATH}:`,
+      error.message || error
+    );
+    return 0;
+  }
+}
+
+// Stores the polled prices (keyed by CoinGecko id) as the prices of the day.
+// Today's row follows every poll, so past days keep their last polled price.
+export async function recordDailyPrices(
+  pricesById: Record<string, { usd?: number; eur?: number }>,
+  at: Date = new Date()
+): Promise<void> {
+  const date = toPriceDay(at.getTime());
+  const entries: PriceHistoryEntry[] = [];
+  for (const [symbol, id] of Object.entries(PRICED_TOKENS)) {
+    const price = pricesById[id];
+    if (typeof price?.usd === 'number' && typeof price?.eur === 'number') {
+      entries.push({ symbol, date, usd: price.usd, eur: price.eur });
+    }
+  }
+  await upsertPriceEntries(entries);
+}
+
+// Stored prices for the given tokens and days, keyed by `${symbol}:${date}`
+export async function getDailyPrices(
+  symbols: string[],
+  dates: string[]
+): Promise<Map<string, DailyPrice>> {
+  const prices = new Map<string, DailyPrice>();
+  if (symbols.length === 0 || dates.length === 0) return prices;
+
+  const rows = await TokenPriceHistoryModel.find({
+    symbol: { $in: symbols.map((s) => s.toUpperCase()) },
+    date: { $in: dates },
+  })
+    .select({ symbol: 1, date: 1, usd: 1, eur: 1 })
+    .lean();
+  for (const row of rows) {
+    prices.set(`${row.symbol}:${row.date}`, { usd: row.usd, eur: row.eur });
+  }
+  return prices;
+}
@@ -23,11 +23,38 @@ export interface BasicCollectionInfo {
   image_url: string | null;
   safelist_status: string | null;
   total_supply: number;
-  num_owners: number;
-  total_volume: number;
-  market_cap: number;
+  // From /collections/{slug}/stats; null when the stats could not be fetched
+  num_owners: number | null;
+  total_volume: number | null;
+  one_day_volume: number | null;
+  market_cap: number | null;
 }
 
+// Subset of OpenSea's /collections/{slug}/stats response
+interface OpenSeaCollectionStatsResponse {
+  total?: {
+    volume?: number;
+    num_owners?: number;
+    market_cap?: number;
+  };
+  intervals?: Array<{
+    interval?: string; // 'one_day', 'seven_day', 'thirty_day'
+    volume?: number;
+  }>;
+}
+
+type CollectionStats = Pick<
+  BasicCollectionInfo,
+  'num_owners' | 'total_volume' | 'one_day_volume' | 'market_cap'
+>;
+
+const MISSING_STATS: CollectionStats = {
+  num_owners: null,
+  total_volume: null,
+  one_day_volume: null,
+  market_cap: null,
+};
+
 // Floor price data structure from Alchemy
 interface AlchemyFloorPriceResponse {
   openSea?: {
@@ -53,8 +80,10 @@ export async function fetchSingleCollectionInfo(
   // 1. Check MongoDB Cache first
   try {
     const cachedDoc = await CollectionMetadata.findOne({ slug: slug }).lean(); // Use lean for plain JS object
-    // The TTL index handles expiration automatically
-    if (cachedDoc) {
+    // The TTL index handles expiration automatically. Documents cached
+    // before oneDayVolume was stored hold 0 defaults instead of real stats,
+    // so they are refetched.
+    if (cachedDoc && cachedDoc.oneDayVolume !== undefined) {
       console.log(
         `[Util Fetch Info Cache HIT] Found cached metadata for ${slug}`
       );
@@ -66,13 +95,14 @@ export async function fetchSingleCollectionInfo(
         image_url: cachedDoc.imageUrl,
         safelist_status: cachedDoc.safelistStatus,
         total_supply: cachedDoc.totalSupply,
-        num_owners: cachedDoc.numOwners,
-        total_volume: cachedDoc.totalVolume,
-        market_cap: cachedDoc.marketCap,
+        num_owners: cachedDoc.numOwners ?? null,
+        total_volume: cachedDoc.totalVolume ?? null,
+        one_day_volume: cachedDoc.oneDayVolume ?? null,
+        market_cap: cachedDoc.marketCap ?? null,
       };
     }
     console.log(
-      `[Util Fetch Info Cache MISS] No cached metadata found for ${slug}`
+      `[Util Fetch Info Cache MISS] No current cached metadata found for ${slug}`
     );
   } catch (dbError) {
     console.error(
@@ -92,9 +122,7 @@ export async function fetchSingleCollectionInfo(
     image_url: null,
     safelist_status: null,
     total_supply: 0,
-    num_owners: 0,
-    total_volume: 0,
-    market_cap: 0,
+    ...MISSING_STATS,
   };
 
   if (!OPENSEA_API_KEY) {
@@ -130,7 +158,8 @@ export async function fetchSingleCollectionInfo(
         return defaultReturn;
       }
 
-      // 3. Prepare data for DB and return
+      // 3. Prepare data for DB and return (the collection object has no stats)
+      const stats = await fetchCollectionStats(slug);
       const fetchedInfo: BasicCollectionInfo = {
         slug: slug,
         name: collectionData.name ?? null,
@@ -141,14 +170,7 @@ export async function fetchSingleCollectionInfo(
           collectionData.total_supply ??
           collectionData.stats?.total_supply ??
           0,
-        num_owners:
-          collectionData.num_owners ?? collectionData.stats?.num_owners ?? 0,
-        total_volume:
-          collectionData.total_volume ??
-          collectionData.stats?.total_volume ??
-          0,
-        market_cap:
-          collectionData.market_cap ?? collectionData.stats?.market_cap ?? 0,
+        ...stats,
       };
 
       // 4. Save successful fetch to MongoDB Cache (non-blocking)
@@ -166,6 +188,7 @@ export async function fetchSingleCollectionInfo(
           totalSupply: fetchedInfo.total_supply,
           numOwners: fetchedInfo.num_owners,
           totalVolume: fetchedInfo.total_volume,
+          oneDayVolume: fetchedInfo.one_day_volume,
           marketCap: fetchedInfo.market_cap,
           // slug is used for matching, timestamps updated automatically
         },
@@ -247,6 +270,53 @@ export async function fetchSingleCollectionInfo(
   return defaultReturn; // Should only be reached if max retries hit on API fetch
 }
 
+/**
+ * Fetches owner count and volumes from OpenSea's collection stats endpoint.
+ * Stats that cannot be fetched are null, so callers can tell them from zero.
+ */
+export async function fetchCollectionStats(
+  slug: string
+): Promise<CollectionStats> {
+  if (!OPENSEA_API_KEY) return MISSING_STATS;
+  const url = `${OPENSEA_API_BASE}/collections/${slug}/stats`;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      const response = await axios.get<OpenSeaCollectionStatsResponse>(url, {
+        headers: {
+          Accept: 'application/json',
+          'X-API-KEY': OPENSEA_API_KEY,
+        },
+        timeout: FETCH_TIMEOUT_MS,
+      });
+      const { total, intervals } = response.data ?? {};
+      const oneDay = intervals?.find((i) => i.interval === 'one_day');
+      return {
+        num_owners: total?.num_owners ?? null,
+        total_volume: total?.volume ?? null,
+        one_day_volume: oneDay?.volume ?? null,
+        market_cap: total?.market_cap ?? null,
+      };
+    } catch (error) {
+      const status = axios.isAxiosError(error)
+        ? error.response?.status
+        : undefined;
+      console.warn(
+        `[Util Fetch Stats WARN] Attempt ${attempt + 1}/${MAX_RETRIES + 1} failed for ${slug}. Status: ${status || 'N/A'}. Message: ${(error as Error).message}`
+      );
+      const retryable =
+        status === 429 || (status !== undefined && status >= 500);
+      if (!retryable || attempt === MAX_RETRIES) break;
+      const delay = Math.min(
+        INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt),
+        MAX_RETRY_DELAY_MS
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  return MISSING_STATS;
+}
+
 /**
  * Fetches floor price from Alchemy NFT API.
  * Exported for direct use by the dedicated API endpoint.
@@ -254,9 +324,17 @@ export async function fetchSingleCollectionInfo(
 export async function fetchAlchemyFloorPriceInternal(
   contractAddress: string
 ): Promise<number> {
+  return (await requestAlchemyFloorPrice(contractAddress)) ?? 0;
+}
+
+// Alchemy floor price in ETH: 0 when the collection has no floor, null when
+// the request failed (missing key, errors after retries)
+async function requestAlchemyFloorPrice(
+  contractAddress: string
+): Promise<number | null> {
   if (!ALCHEMY_API_KEY) {
     console.error('[Util Alchemy Fetch] API key is missing!');
-    return 0; // Cannot proceed without key
+    return null; // Cannot proceed without key
   }
 
   const url = `${ALCHEMY_NFT_API_BASE}/${ALCHEMY_API_KEY}/getFloorPrice?contractAddress=${contractAddress.toLowerCase()}`;
@@ -340,9 +418,9 @@ export async function fetchAlchemyFloorPriceInternal(
         } else {
           // Other client errors - don't retry
           console.error(
-            `   Non-retryable Axios error. Status: ${status || 'N/A'}. Returning 0.`
+            `   Non-retryable Axios error. Status: ${status || 'N/A'}. Returning null.`
           );
-          return 0;
+          return null;
         }
       } else {
         // Non-Axios error - don't retry
@@ -350,29 +428,33 @@ export async function fetchAlchemyFloorPriceInternal(
           `[Util Alchemy Fetch Error] Non-Axios error for ${contractAddress}:`,
           error
         );
-        return 0;
+        return null;
       }
       // If loop finishes after max retries on retryable errors
       console.error(
-        `[Util Alchemy Fetch Error] Max retries (${MAX_RETRIES}) reached for ${contractAddress}. Returning 0.`
+        `[Util Alchemy Fetch Error] Max retries (${MAX_RETRIES}) reached for ${contractAddress}. Returning null.`
       );
     } // End catch
   } // End for loop
 
-  return 0; // Return 0 if max retries hit
+  return null; // Max retries hit
 }
 
 /**
- * Fetches floor price using the Alchemy API.
+ * Fetches floor price using the Alchemy API. `fetch_failed` tells a failed
+ * request apart from a collection without a floor (both have floor_price 0).
  */
 export async function fetchFloorPriceData(
   contractAddress: string,
   slug: string // Keep slug for potential future use or logging, though not used in Alchemy call
-): Promise<{ floor_price: number }> {
+): Promise<{ floor_price: number; fetch_failed: boolean }> {
   try {
     // Only call Alchemy now
-    const alchemyPrice = await fetchAlchemyFloorPriceInternal(contractAddress);
-    return { floor_price: alchemyPrice };
+    const alchemyPrice = await requestAlchemyFloorPrice(contractAddress);
+    return {
+      floor_price: alchemyPrice ?? 0,
+      fetch_failed: alchemyPrice === null,
+    };
   } catch (error) {
     // This catch block might be less relevant now if fetchAlchemyFloorPriceInternal returns 0 on error
     // But keep it for unexpected throws
@@ -380,7 +462,7 @@ export async function fetchFloorPriceData(
       `[Util Fetch Floor] Unexpected error fetching Alchemy floor price for ${contractAddress} (Slug: ${slug}):`,
       error
     );
-    return { floor_price: 0 }; // Final fallback
+    return { floor_price: 0, fetch_failed: true }; // Final fallback
   }
 }
 
@@ -388,10 +470,12 @@ export async function fetchFloorPriceData(
 export interface CombinedCollectionData
   extends Omit<BasicCollectionInfo, 'stats'> {
   floor_price: number;
+  fetch_failed: boolean; // The floor price could not be fetched
   total_supply: number;
-  num_owners: number;
-  total_volume: number;
-  market_cap: number;
+  num_owners: number | null;
+  total_volume: number | null;
+  one_day_volume: number | null;
+  market_cap: number | null;
 }
 
 export async function fetchCollectionData(
@@ -422,13 +506,13 @@ export async function fetchCollectionData(
           image_url: null,
           safelist_status: null,
           total_supply: 0,
-          num_owners: 0,
-          total_volume: 0,
-          market_cap: 0,
+          ...MISSING_STATS,
         };
 
   const floor_price =
     priceResult.status === 'fulfilled' ? priceResult.value.floor_price : 0;
+  const fetch_failed =
+    priceResult.status === 'rejected' || priceResult.value.fetch_failed;
 
   if (infoResult.status === 'rejected') {
     console.error(
@@ -452,10 +536,12 @@ export async function fetchCollectionData(
     image_url: info.image_url,
     safelist_status: info.safelist_status,
     floor_price: floor_price,
+    fetch_failed: fetch_failed,
     // Get stats from the info object
     total_supply: info.total_supply,
     num_owners: info.num_owners,
     total_volume: info.total_volume,
+    one_day_volume: info.one_day_volume,
     market_cap: info.market_cap,
   };
 }
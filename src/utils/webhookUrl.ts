@@ -0,0 +1,97 @@
+import dns from 'dns';
+import net from 'net';
+
+// Addresses webhooks may not reach: private, loopback, link-local (cloud
+// metadata), carrier-grade NAT, documentation, NAT64, multicast and reserved
+// ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64: reaches IPv4 addresses, private ones included
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// True when the IP is publicly routable (IPv4-mapped IPv6 is checked as IPv4)
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPublicAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks that a webhook URL is https and that its host resolves only to
+ * public addresses. Returns the reason it is rejected, or null if allowed.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL.';
+  }
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https.';
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, ''); // IPv6 literals
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return `Webhook host ${hostname} could not be resolved.`;
+  }
+  if (
+    addresses.length === 0 ||
+    !addresses.every((a) => isPublicAddress(a.address))
+  ) {
+    return `Webhook host ${hostname} resolves to a non-public address.`;
+  }
+  return null;
+}
+
+// dns.lookup for the delivery agent: fails the connection if the host
+// resolves to a non-public address by the time it is actually connected to
+export const publicOnlyLookup: net.LookupFunction = (
+  hostname,
+  options,
+  callback
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `Webhook host ${hostname} resolves to a non-public address.`
+      );
+      refused.code = 'ENOTPUBLIC';
+      return callback(refused, []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};